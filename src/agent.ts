@@ -1,91 +1,407 @@
 /**
  * reef-core/agent.ts — Thin orchestrator wiring SessionManager + ProviderRouter
  *
- * Routes spawn requests to the appropriate backend:
- * - OpenAI/Google → ProviderRouter (registry-based providers)
- * - Anthropic → SessionManager (Pi SDK special case, or tmux fallback)
+ * Every registry provider (Anthropic via the Pi SDK, OpenAI, Google) runs through
+ * ProviderRouter. Anthropic sessions fall back to the claude CLI in tmux when the Pi SDK
+ * is unavailable or fails to open a session.
+ *
+ * Every spawn is admitted through the SpawnScheduler; sessions over the concurrency
+ * caps are persisted as 'queued' and started when a slot frees up.
+ *
+ * Sessions spawned with worktree isolation get their worktree before they are started or
+ * queued, so every backend simply runs in the worktree's directory.
  */
-import type { SessionRow } from './db.js'
+import type { SessionRow, OutputPage, OutputQuery } from './db.js'
+import { getSession, getSessionsByStatus, updateSession } from './db.js'
+import type {
+  ApprovalDecision,
+  ApprovalRequest,
+  ApprovalRules,
+  Backend,
+  Provider,
+  ProviderCandidate,
+  SessionBudget,
+  SessionWorktree,
+  ToolPolicy,
+  WorkdirSnapshot,
+  WorktreeInfo,
+} from './shared-types.js'
+import { emitReefEvent } from './events.js'
 import { SessionManager } from './session-manager.js'
 import { ProviderRouter } from './provider-router.js'
+import { SpawnScheduler, loadLimitsFromEnv } from './scheduler.js'
+import { resolveBudget } from './budget.js'
+import { resolveCandidates } from './fallback.js'
+import { classifyError } from './providers/retry.js'
+import { createWorktree, discardWorktree, mergeWorktree, worktreeStatus } from './worktree.js'
+import { takeSnapshot, watchChanges } from './changes.js'
+import { recordStartSnapshot } from './checkpoints.js'
 
 // Singletons
 const sessionMgr = new SessionManager()
 const providerRouter = new ProviderRouter(sessionMgr)
+const scheduler = new SpawnScheduler(loadLimitsFromEnv(), startQueued, (sessionId) => {
+  const row = getSession(sessionId)
+  return !!row && providerRouter.isAlive(sessionId, row)
+})
+watchChanges()
 
 export interface SpawnOptions {
   task: string
   workdir?: string
   model?: string
-  provider?: 'anthropic' | 'openai' | 'google'
+  provider?: Provider
   forceBackend?: 'sdk' | 'tmux'
+  /** Owner of the session (authenticated user id) */
+  userId?: string
+  /** Higher runs first when the spawn queue is full */
+  priority?: number
+  /** Run claude interactively in tmux (implies the tmux backend) */
+  interactive?: boolean
+  /** Provider-specific settings, passed to the provider session */
+  providerOptions?: Record<string, unknown>
+  /** Tool restrictions on top of the server policy */
+  toolPolicy?: ToolPolicy
+  /** Tool calls that wait for a client's approval */
+  approvalRules?: ApprovalRules
+  /** Limits on turns, tokens, cost and duration; filled from the server defaults */
+  budget?: SessionBudget
+  /** Providers to try after `provider`; default: the server's chain */
+  fallback?: ProviderCandidate[]
+  /** `worktree`: run in a new git worktree and branch of the workdir's repository */
+  isolation?: 'none' | 'worktree'
 }
 
 export interface SpawnResult {
   sessionId: string
-  backend: 'sdk' | 'tmux' | 'openai' | 'google'
+  backend: Backend
   row: SessionRow
 }
 
 /**
- * Spawn an agent session.
+ * Spawn an agent session, or queue it if the concurrency caps are reached.
  */
 export async function spawn(opts: SpawnOptions): Promise<SpawnResult> {
-  await sessionMgr.waitForSdk()
-
+  if (opts.interactive) opts = { ...opts, forceBackend: 'tmux' }
   const sessionId = sessionMgr.generateId()
   const provider = opts.provider || 'anthropic'
+  const primary = { provider, model: opts.model }
+  // Tmux sessions run claude itself and have nothing to fall back to
+  const candidates =
+    opts.forceBackend === 'tmux' ? [primary] : resolveCandidates(primary, opts.fallback)
+  opts = { ...opts, budget: resolveBudget(opts.budget), fallback: candidates.slice(1) }
 
-  // Route OpenAI/Google through provider registry
-  if (provider === 'openai' || provider === 'google') {
-    const row = await providerRouter.route(sessionId, opts.task, provider, opts.model, opts.workdir)
-    return { sessionId, backend: provider, row }
+  let worktree: SessionWorktree | undefined
+  if (opts.isolation === 'worktree') {
+    const created = createWorktree(sessionId, opts.workdir || process.cwd())
+    worktree = created.worktree
+    opts = { ...opts, workdir: created.workdir }
   }
 
-  // Anthropic: Pi SDK or tmux fallback
-  // Pi SDK uses a fundamentally different session model (createAgentSession + subscribe/prompt)
-  // that doesn't fit the simple AgentProvider.run() interface, so it's a special case.
-  const backend = opts.forceBackend || (sessionMgr.isPiSdkAvailable() ? 'sdk' : 'tmux')
-  if (backend === 'sdk') {
+  if (!scheduler.hasPending() && scheduler.hasCapacity(provider)) {
+    scheduler.markActive(sessionId, provider)
+    let result: SpawnResult
     try {
-      const row = await sessionMgr.spawnSdkSession(
-        sessionId,
-        opts.task,
-        opts.model,
-        opts.workdir || process.cwd()
-      )
-      return { sessionId, backend: 'sdk', row }
+      result = await startSession(sessionId, opts)
+      scheduler.markStarted(sessionId)
     } catch (err) {
+      scheduler.release(sessionId)
+      if (worktree) discardWorktree(worktree)
+      throw err
+    }
+    if (worktree) {
+      updateSession(sessionId, { worktree })
+      result.row.worktree = worktree
+      emitWorktreeEvent('worktree.created', sessionId, worktree)
+    }
+    return result
+  }
+
+  const backend = (await useTmux(provider, opts.forceBackend))
+    ? 'tmux'
+    : providerRouter.backendOf(provider)
+  const priority = opts.priority ?? 0
+  const row = sessionMgr.createQueuedRow(sessionId, {
+    task: opts.task,
+    backend,
+    provider,
+    model: opts.model,
+    workdir: opts.workdir,
+    priority,
+    user_id: opts.userId,
+    interactive: opts.interactive,
+    provider_options: opts.providerOptions,
+    tool_policy: opts.toolPolicy,
+    approval_rules: opts.approvalRules,
+    budget: opts.budget,
+    candidates: candidates.length > 1 ? candidates : undefined,
+    worktree,
+  })
+  if (worktree) emitWorktreeEvent('worktree.created', sessionId, worktree)
+  scheduler.enqueue({ sessionId, provider, priority, enqueuedAt: row.created_at })
+  return { sessionId, backend, row: getSession(sessionId) ?? row }
+}
+
+/**
+ * Reconcile sessions a previous process left running. Call once at startup, before
+ * re-queueing. Tmux panes that survived are reattached; everything else is marked
+ * interrupted and can be brought back with resume().
+ */
+export async function recoverSessions(): Promise<{ reattached: number; interrupted: number }> {
+  let reattached = 0
+  let interrupted = 0
+  for (const row of getSessionsByStatus('running')) {
+    if (sessionMgr.reattachTmux(row)) {
+      providerRouter.watchDeadline(row)
+      reattached++
+      continue
+    }
+    updateSession(row.id, { status: 'interrupted' })
+    emitReefEvent('status', row.id, { status: 'interrupted' })
+    interrupted++
+  }
+  return { reattached, interrupted }
+}
+
+/**
+ * Bring an interrupted or finished session back so it accepts follow-up messages.
+ * The provider session is reopened from its persisted conversation.
+ */
+export async function resume(row: SessionRow): Promise<void> {
+  if (row.status === 'queued' || row.status === 'running') {
+    throw new Error(`session is ${row.status}`)
+  }
+  if (row.status === 'budget_exceeded') throw new Error('session exceeded its budget')
+  if (row.worktree && row.worktree.state !== 'active') {
+    throw new Error(`session worktree was ${row.worktree.state}`)
+  }
+  await providerRouter.resume(row)
+}
+
+/**
+ * Re-queue sessions left waiting by a previous process. Call once at startup.
+ */
+export async function resumeQueuedSessions(): Promise<number> {
+  const queued = getSessionsByStatus('queued')
+  scheduler.restore(
+    queued.map((row) => ({
+      sessionId: row.id,
+      provider: providerOf(row),
+      priority: row.priority ?? 0,
+      enqueuedAt: row.created_at,
+    }))
+  )
+  return queued.length
+}
+
+/** Scheduler callback: start a session that was waiting in the queue */
+async function startQueued(sessionId: string): Promise<void> {
+  const row = getSession(sessionId)
+  if (!row || row.status !== 'queued') {
+    scheduler.release(sessionId)
+    return
+  }
+
+  try {
+    await startSession(sessionId, {
+      task: row.task,
+      workdir: row.workdir,
+      model: row.model,
+      provider: providerOf(row),
+      forceBackend: row.backend === 'tmux' ? 'tmux' : undefined,
+      userId: row.user_id,
+      priority: row.priority,
+      interactive: row.interactive,
+      providerOptions: row.provider_options,
+      toolPolicy: row.tool_policy,
+      approvalRules: row.approval_rules,
+      budget: row.budget,
+      fallback: row.candidates?.slice(1) ?? [],
+    })
+  } catch (err) {
+    // As in spawn(), a session that never started leaves nothing worth keeping in its worktree
+    if (row.worktree?.state === 'active') {
+      discardWorktree(row.worktree)
+      const worktree: SessionWorktree = { ...row.worktree, state: 'discarded' }
+      updateSession(sessionId, { worktree })
+      emitWorktreeEvent('worktree.discarded', sessionId, worktree)
+    }
+    const error = classifyError(err)
+    updateSession(sessionId, { status: 'error', error })
+    emitReefEvent('status', sessionId, { status: 'error', error })
+    throw err
+  }
+}
+
+function providerOf(row: SessionRow): Provider {
+  return row.provider || 'anthropic'
+}
+
+/** Anthropic sessions run in tmux when forced to, or when the Pi SDK can't be loaded */
+async function useTmux(provider: Provider, forceBackend?: 'sdk' | 'tmux'): Promise<boolean> {
+  if (provider !== 'anthropic') return false
+  return forceBackend === 'tmux' || !(await providerRouter.isAvailable(provider))
+}
+
+async function startSession(sessionId: string, opts: SpawnOptions): Promise<SpawnResult> {
+  const snapshot = snapshotWorkdir(sessionId, opts.workdir || process.cwd())
+  return launch(sessionId, opts, snapshot)
+}
+
+/** Snapshot the workdir for the changes API; a session can still run without one */
+function snapshotWorkdir(sessionId: string, workdir: string): WorkdirSnapshot | undefined {
+  try {
+    return takeSnapshot(sessionId, workdir)
+  } catch (err) {
+    console.warn(`Could not snapshot workdir of ${sessionId}:`, (err as Error).message)
+    return undefined
+  }
+}
+
+async function launch(
+  sessionId: string,
+  opts: SpawnOptions,
+  snapshot?: WorkdirSnapshot
+): Promise<SpawnResult> {
+  const provider = opts.provider || 'anthropic'
+
+  if (!(await useTmux(provider, opts.forceBackend))) {
+    try {
+      const row = await providerRouter.route(sessionId, opts.task, provider, {
+        model: opts.model,
+        workdir: opts.workdir,
+        userId: opts.userId,
+        providerOptions: opts.providerOptions,
+        toolPolicy: opts.toolPolicy,
+        approvalRules: opts.approvalRules,
+        budget: opts.budget,
+        fallback: opts.fallback,
+        snapshot,
+      })
+      return { sessionId, backend: row.backend, row }
+    } catch (err) {
+      if (provider !== 'anthropic') throw err
       console.warn(
         `SDK spawn failed for ${sessionId}, falling back to tmux:`,
         (err as Error).message
       )
-      const row = sessionMgr.spawnTmuxSession(sessionId, opts.task, opts.workdir)
-      return { sessionId, backend: 'tmux', row }
     }
   }
 
-  const row = sessionMgr.spawnTmuxSession(sessionId, opts.task, opts.workdir)
+  const row = sessionMgr.spawnTmuxSession(
+    sessionId,
+    opts.task,
+    opts.workdir,
+    opts.userId,
+    opts.interactive,
+    opts.budget
+  )
+  if (snapshot) recordStartSnapshot(row, snapshot)
+  providerRouter.watchDeadline(row)
   return { sessionId, backend: 'tmux', row }
 }
 
 export async function sendMessage(sessionId: string, message: string): Promise<boolean> {
-  return sessionMgr.sendMessage(sessionId, message)
+  const row = getSession(sessionId)
+  if (!row) return false
+  return providerRouter.send(row, message)
+}
+
+/** Approve or reject a paused tool call. Returns false if it isn't waiting for a decision. */
+export function decideApproval(
+  sessionId: string,
+  toolCallId: string,
+  decision: ApprovalDecision,
+  decidedBy?: string
+): boolean {
+  return providerRouter.approvals.decide(sessionId, toolCallId, decision, decidedBy)
+}
+
+export function listApprovals(sessionId: string): ApprovalRequest[] {
+  return providerRouter.approvals.list(sessionId)
 }
 
 export function kill(sessionId: string, row: SessionRow): void {
-  sessionMgr.kill(sessionId, row)
+  if (scheduler.remove(sessionId)) {
+    emitReefEvent('session.end', sessionId, { reason: 'killed' })
+    return
+  }
+  providerRouter.kill(sessionId, row)
 }
 
 export function getOutput(sessionId: string, row: SessionRow): string {
   return sessionMgr.getOutput(sessionId, row)
 }
 
-export function isAlive(sessionId: string, row: SessionRow): boolean {
-  return sessionMgr.isAlive(sessionId, row)
+export function getOutputPage(
+  sessionId: string,
+  row: SessionRow,
+  query: OutputQuery
+): OutputPage | null {
+  return sessionMgr.getOutputPage(sessionId, row, query)
+}
+
+export function isAlive(
+  sessionId: string,
+  row: Pick<SessionRow, 'backend' | 'tmux_session'>
+): boolean {
+  return providerRouter.isAlive(sessionId, row)
+}
+
+function emitWorktreeEvent(
+  type: 'worktree.created' | 'worktree.merged' | 'worktree.discarded',
+  sessionId: string,
+  worktree: SessionWorktree
+): void {
+  emitReefEvent(type, sessionId, {
+    branch: worktree.branch,
+    path: worktree.path,
+    ...(worktree.mergeCommit && { mergeCommit: worktree.mergeCommit }),
+  })
+}
+
+/** A session's worktree, with its commits and uncommitted files while it is active */
+export function getWorktreeInfo(row: Omit<SessionRow, 'output'>): WorktreeInfo | undefined {
+  if (!row.worktree) return undefined
+  const info: WorktreeInfo = { ...row.worktree, sessionId: row.id, status: row.status }
+  if (row.worktree.state !== 'active') return info
+  try {
+    return { ...info, ...worktreeStatus(row.worktree) }
+  } catch {
+    // Removed behind reef's back; report what is recorded
+    return info
+  }
+}
+
+/**
+ * Finish with a session's active worktree: merge its branch back into the main checkout,
+ * or discard it. Refused while the session is queued or running; an idle session is
+ * ended first, so no follow-up can write to the removed worktree.
+ */
+export function closeWorktree(row: SessionRow, action: 'merge' | 'discard'): SessionWorktree {
+  const worktree = row.worktree
+  if (!worktree || worktree.state !== 'active') throw new Error('session has no active worktree')
+  if (row.status === 'queued' || row.status === 'running') {
+    throw new Error(`session is ${row.status}`)
+  }
+  if (isAlive(row.id, row)) {
+    kill(row.id, row)
+    updateSession(row.id, { status: 'stopped' })
+  }
+
+  let closed: SessionWorktree
+  if (action === 'merge') {
+    closed = { ...worktree, state: 'merged', mergeCommit: mergeWorktree(worktree, row.id) }
+  } else {
+    discardWorktree(worktree)
+    closed = { ...worktree, state: 'discarded' }
+  }
+  updateSession(row.id, { worktree: closed })
+  emitWorktreeEvent(action === 'merge' ? 'worktree.merged' : 'worktree.discarded', row.id, closed)
+  return closed
 }
 
-export function getStats(): { sdk: number; tmux: number; total: number } {
-  const stats = sessionMgr.getStats()
-  return { sdk: stats.sdk, tmux: stats.tmux, total: stats.total }
+/** Open sessions per provider and in tmux, plus the spawn queue length */
+export function getStats(): Record<string, number> {
+  return { ...providerRouter.getStats(), queued: scheduler.getStats().queued }
 }
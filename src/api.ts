@@ -2,9 +2,45 @@
  * reef-core/api.ts — HTTP API server
  */
 import http from 'http'
-import { getAllSessions, getSession, updateSession } from './db.js'
-import { spawn, kill, getOutput, isAlive, sendMessage, getStats } from './agent.js'
+import {
+  aggregateUsage,
+  countSessions,
+  getEvents,
+  getSession,
+  getSessionsWithWorktree,
+  listSessions,
+  updateSession,
+  type OutputQuery,
+  type SessionFilter,
+  type SessionRow,
+  type UsageQuery,
+} from './db.js'
+import {
+  spawn,
+  kill,
+  getOutput,
+  getOutputPage,
+  isAlive,
+  sendMessage,
+  resume,
+  getStats,
+  decideApproval,
+  listApprovals,
+  closeWorktree,
+  getWorktreeInfo,
+  type SpawnResult,
+} from './agent.js'
 import { attachWebSocket, getWsStats } from './ws.js'
+import { openEventStream, getSseStats } from './sse.js'
+import { getProvider, getProviderStatus, hasProvider } from './providers/index.js'
+import { checkPolicyCoverage, checkWorkdir, runsOwnTools, validatePolicy } from './policy.js'
+import { validateApprovalRules } from './approvals.js'
+import { validateBudget } from './budget.js'
+import { resolveCandidates, validateFallback } from './fallback.js'
+import { repoRoot } from './git.js'
+import { validatePriority } from './scheduler.js'
+import { diffChanges, listChanges } from './changes.js'
+import { listCheckpoints, restoreCheckpoint } from './checkpoints.js'
 import {
   createUser,
   getUser,
@@ -15,13 +51,33 @@ import {
   verifyUserPassword,
   updateUserLastLogin,
 } from './user-db.js'
-import { generateToken, verifyToken, extractTokenFromHeader } from './auth.js'
+import {
+  createTemplate,
+  getTemplate,
+  listTemplates,
+  updateTemplate,
+  deleteTemplate,
+} from './template-db.js'
+import { renderPrompt, validateTemplate } from './templates.js'
+import { generateToken, authenticate, canAccessSession, type AuthContext } from './auth.js'
 import type {
+  ApprovalDecision,
+  ApprovalListResponse,
+  CheckpointListResponse,
+  CheckpointRestoreResponse,
+  SessionChangesResponse,
+  SessionDiffResponse,
+  SessionWorktree,
+  WorktreeListResponse,
+  WorktreeResponse,
   SpawnRequest,
+  UsageGroup,
+  UsageResponse,
   StatusResponse,
   SessionListResponse,
   SessionDetailResponse,
   SessionOutputResponse,
+  SessionTimelineResponse,
   SpawnResponse,
   ErrorResponse,
   CreateUserRequest,
@@ -30,15 +86,111 @@ import type {
   UserResponse,
   UsersListResponse,
   LoginResponse,
+  CreateTemplateRequest,
+  UpdateTemplateRequest,
+  TemplateSpawnRequest,
+  TemplateResponse,
+  TemplateListResponse,
+  TaskTemplate,
 } from './shared-types.js'
 
 const PORT = parseInt(process.env.REEF_PORT || '7777', 10)
+const DEFAULT_PAGE_SIZE = 50
+const MAX_PAGE_SIZE = 200
+const MAX_OUTPUT_LINES = 5000
+const DEFAULT_TIMELINE_EVENTS = 1000
 
 function json(res: http.ServerResponse, data: unknown, status = 200): void {
   res.writeHead(status, { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' })
   res.end(JSON.stringify(data))
 }
 
+/**
+ * Look up a template the caller can see: their own, a shared one, or any for admins.
+ * With `write`, only its owner and admins get it. Responds 404/403 otherwise.
+ */
+function requireTemplate(
+  auth: AuthContext,
+  id: string,
+  res: http.ServerResponse,
+  write = false
+): TaskTemplate | undefined {
+  const template = getTemplate(id)
+  const canWrite = template !== undefined && canAccessSession(auth, template.owner_id)
+  if (!template || (!canWrite && !template.shared)) {
+    json(res, { error: 'not found' } as ErrorResponse, 404)
+    return undefined
+  }
+  if (write && !canWrite) {
+    json(res, { error: 'Forbidden' } as ErrorResponse, 403)
+    return undefined
+  }
+  return template
+}
+
+/** Check a spawn request; returns an error message if it can't be spawned */
+function validateSpawnRequest(body: SpawnRequest, auth: AuthContext): string | undefined {
+  const { task, workdir, backend, provider, interactive, providerOptions, isolation } = body
+
+  if (!task) return 'task is required'
+  if (provider && !hasProvider(provider)) return `unknown provider: ${provider}`
+  if (
+    providerOptions !== undefined &&
+    (typeof providerOptions !== 'object' || Array.isArray(providerOptions))
+  ) {
+    return 'providerOptions must be an object'
+  }
+  const optionsError = getProvider(provider || 'anthropic')?.validateOptions?.(
+    providerOptions ?? {}
+  )
+  if (optionsError) return optionsError
+  const policyError =
+    checkWorkdir(workdir || process.cwd()) ??
+    (body.policy !== undefined ? validatePolicy(body.policy) : undefined) ??
+    (body.approval !== undefined ? validateApprovalRules(body.approval) : undefined) ??
+    (body.budget !== undefined ? validateBudget(body.budget) : undefined) ??
+    (body.fallback !== undefined ? validateFallback(body.fallback) : undefined)
+  if (policyError) return policyError
+  if (isolation !== undefined && isolation !== 'none' && isolation !== 'worktree') {
+    return 'isolation must be "none" or "worktree"'
+  }
+  if (isolation === 'worktree' && !repoRoot(workdir || process.cwd())) {
+    return 'worktree isolation needs a workdir in a git repository'
+  }
+  if (interactive && ((provider && provider !== 'anthropic') || backend === 'sdk')) {
+    return 'interactive is only supported on the tmux backend'
+  }
+  const priorityError = validatePriority(body.priority, auth.role === 'admin')
+  if (priorityError) return priorityError
+  // Fallbacks can land on any provider in the chain, so the policy has to cover them all
+  const chain = resolveCandidates({ provider: provider || 'anthropic' }, body.fallback)
+  const providers = chain.map((candidate) => candidate.provider)
+  if (body.approval !== undefined && runsOwnTools(providers)) {
+    return "approval can't be enforced on the anthropic provider (Pi SDK and tmux)"
+  }
+  return checkPolicyCoverage(providers, body.policy, auth.role === 'admin')
+}
+
+/** Spawn a validated request for a user */
+function spawnFromRequest(body: SpawnRequest, userId: string): Promise<SpawnResult> {
+  return spawn({
+    task: body.task,
+    workdir: body.workdir,
+    model: body.model,
+    provider: body.provider,
+    forceBackend: body.backend as 'sdk' | 'tmux' | undefined,
+    userId,
+    priority: body.priority,
+    interactive: body.interactive,
+    providerOptions: body.providerOptions,
+    toolPolicy: body.policy,
+    approvalRules: body.approval,
+    budget: body.budget,
+    fallback: body.fallback,
+    isolation: body.isolation,
+  })
+}
+
 function readBody(req: http.IncomingMessage): Promise<string> {
   return new Promise((resolve, reject) => {
     let body = ''
@@ -50,20 +202,7 @@ function readBody(req: http.IncomingMessage): Promise<string> {
   })
 }
 
-function authenticate(req: http.IncomingMessage): { userId: string; role: string } | null {
-  const token = extractTokenFromHeader(req.headers.authorization)
-  if (!token) return null
-
-  const payload = verifyToken(token)
-  if (!payload) return null
-
-  return { userId: payload.userId, role: payload.role }
-}
-
-function requireAuth(
-  req: http.IncomingMessage,
-  res: http.ServerResponse
-): { userId: string; role: string } | null {
+function requireAuth(req: http.IncomingMessage, res: http.ServerResponse): AuthContext | null {
   const auth = authenticate(req)
   if (!auth) {
     json(res, { error: 'Authentication required' } as ErrorResponse, 401)
@@ -72,10 +211,7 @@ function requireAuth(
   return auth
 }
 
-function requireAdmin(
-  req: http.IncomingMessage,
-  res: http.ServerResponse
-): { userId: string; role: string } | null {
+function requireAdmin(req: http.IncomingMessage, res: http.ServerResponse): AuthContext | null {
   const auth = requireAuth(req, res)
   if (!auth) return null
 
@@ -86,13 +222,113 @@ function requireAdmin(
   return auth
 }
 
+/**
+ * Load a session the caller is allowed to see. Responds 404/403 and returns
+ * undefined otherwise.
+ */
+function requireSession(
+  auth: AuthContext,
+  id: string,
+  res: http.ServerResponse
+): SessionRow | undefined {
+  const session = getSession(id)
+  if (!session) {
+    json(res, { error: 'not found' } as ErrorResponse, 404)
+    return undefined
+  }
+  if (!canAccessSession(auth, session.user_id)) {
+    json(res, { error: 'Forbidden' } as ErrorResponse, 403)
+    return undefined
+  }
+  return session
+}
+
+/**
+ * Parse GET /sessions query parameters into a store filter.
+ * Returns an error message for malformed values.
+ */
+function parseSessionFilter(params: URLSearchParams): SessionFilter | string {
+  const limit = parseInt(params.get('limit') || String(DEFAULT_PAGE_SIZE), 10)
+  const page = parseInt(params.get('page') || '1', 10)
+  if (Number.isNaN(limit) || limit < 1) return 'limit must be a positive integer'
+  if (Number.isNaN(page) || page < 1) return 'page must be a positive integer'
+
+  const filter: SessionFilter = {
+    limit: Math.min(limit, MAX_PAGE_SIZE),
+    page,
+    cursor: params.get('cursor') || undefined,
+    status: params.get('status')?.split(',').filter(Boolean),
+    provider: params.get('provider') || undefined,
+    backend: params.get('backend') || undefined,
+    model: params.get('model') || undefined,
+    q: params.get('q') || undefined,
+    summary: params.get('summary') === 'true' || params.get('summary') === '1',
+  }
+
+  for (const [param, key] of [
+    ['created_after', 'createdAfter'],
+    ['created_before', 'createdBefore'],
+  ] as const) {
+    const value = params.get(param)
+    if (!value) continue
+    const date = new Date(value)
+    if (Number.isNaN(date.getTime())) return `${param} must be an ISO date`
+    filter[key] = date.toISOString()
+  }
+
+  return filter
+}
+
+const USAGE_GROUPS: UsageGroup[] = ['user', 'provider', 'model', 'day']
+
+/**
+ * Parse GET /usage query parameters (groupBy, since, until, user).
+ * Returns an error message for malformed values.
+ */
+function parseUsageQuery(params: URLSearchParams): UsageQuery | string {
+  const groupBy = (params.get('groupBy') ?? USAGE_GROUPS.join(',')).split(',').filter(Boolean)
+  const unknown = groupBy.find((group) => !USAGE_GROUPS.includes(group as UsageGroup))
+  if (unknown) return `groupBy must be a list of: ${USAGE_GROUPS.join(', ')}`
+
+  const query: UsageQuery = {
+    groupBy: groupBy as UsageGroup[],
+    userId: params.get('user') || undefined,
+  }
+  for (const key of ['since', 'until'] as const) {
+    const value = params.get(key)
+    if (!value) continue
+    const date = new Date(value)
+    if (Number.isNaN(date.getTime())) return `${key} must be an ISO date`
+    query[key] = date.toISOString()
+  }
+  return query
+}
+
+/**
+ * Parse GET /sessions/:id/output query parameters (after, limit, tail).
+ * Returns null when none are given, or an error message for malformed values.
+ */
+function parseOutputQuery(params: URLSearchParams): OutputQuery | null | string {
+  const query: OutputQuery = {}
+  for (const key of ['after', 'limit', 'tail'] as const) {
+    const raw = params.get(key)
+    if (raw === null) continue
+    const value = parseInt(raw, 10)
+    if (Number.isNaN(value) || value < 0) return `${key} must be a non-negative integer`
+    query[key] = key === 'after' ? value : Math.min(value, MAX_OUTPUT_LINES)
+  }
+  if (Object.keys(query).length === 0) return null
+  if (query.after !== undefined && query.limit === undefined) query.limit = MAX_OUTPUT_LINES
+  return query
+}
+
 export function startServer(): http.Server {
   const server = http.createServer(async (req, res) => {
     if (req.method === 'OPTIONS') {
       res.writeHead(204, {
         'Access-Control-Allow-Origin': '*',
         'Access-Control-Allow-Methods': 'GET,POST,PUT,DELETE,OPTIONS',
-        'Access-Control-Allow-Headers': 'Content-Type,Authorization',
+        'Access-Control-Allow-Headers': 'Content-Type,Authorization,Last-Event-ID',
       })
       res.end()
       return
@@ -106,63 +342,116 @@ export function startServer(): http.Server {
       if (path === '/status' && req.method === 'GET') {
         const agentStats = getStats()
         const wsStats = getWsStats()
-        const providers = {
-          anthropic: !!process.env.ANTHROPIC_API_KEY,
-          openai: !!process.env.OPENAI_API_KEY,
-          google: !!(process.env.GOOGLE_API_KEY || process.env.GEMINI_API_KEY),
-        }
+        const providers = await getProviderStatus()
         const response: StatusResponse = {
           ok: true,
           version: '0.3.0',
-          sessions: getAllSessions().length,
+          sessions: countSessions(),
           running: agentStats,
           wsClients: wsStats.clients,
+          sseClients: getSseStats().clients,
           uptime: process.uptime(),
           providers,
         }
         return json(res, response)
       }
 
-      // GET /sessions
+      // GET /usage — token and cost totals; admins see every user, users only their own
+      if (path === '/usage' && req.method === 'GET') {
+        const auth = requireAuth(req, res)
+        if (!auth) return
+
+        const query = parseUsageQuery(url.searchParams)
+        if (typeof query === 'string') return json(res, { error: query } as ErrorResponse, 400)
+        if (auth.role !== 'admin') query.userId = auth.userId
+
+        const [total] = aggregateUsage({ ...query, groupBy: [] })
+        const response: UsageResponse = {
+          groupBy: query.groupBy,
+          since: query.since,
+          until: query.until,
+          groups: aggregateUsage(query),
+          total: total ?? {
+            requests: 0,
+            inputTokens: 0,
+            outputTokens: 0,
+            cachedTokens: 0,
+            costUsd: 0,
+            unpricedRequests: 0,
+          },
+        }
+        return json(res, response)
+      }
+
+      // GET /sessions — admins see all sessions, users only their own
       if (path === '/sessions' && req.method === 'GET') {
-        const sessions = getAllSessions()
-        // Reconcile running status
+        const auth = requireAuth(req, res)
+        if (!auth) return
+
+        const filter = parseSessionFilter(url.searchParams)
+        if (typeof filter === 'string') return json(res, { error: filter } as ErrorResponse, 400)
+        if (auth.role !== 'admin') filter.userId = auth.userId
+
+        const { sessions, total, nextCursor } = listSessions(filter)
+        // Reconcile running status for the returned page only
         for (const s of sessions) {
           if (s.status === 'running' && !isAlive(s.id, s)) {
             updateSession(s.id, { status: 'stopped' })
             s.status = 'stopped'
           }
         }
-        const response: SessionListResponse = { sessions }
+        const response: SessionListResponse = {
+          sessions,
+          total,
+          limit: filter.limit,
+          page: filter.cursor ? undefined : filter.page,
+          nextCursor,
+        }
         return json(res, response)
       }
 
       // POST /sessions — spawn agent
       if (path === '/sessions' && req.method === 'POST') {
-        const body = JSON.parse(await readBody(req)) as SpawnRequest
-        const { task, workdir, model, backend, provider } = body
+        const auth = requireAuth(req, res)
+        if (!auth) return
 
-        if (!task) {
-          const err: ErrorResponse = { error: 'task is required' }
-          return json(res, err, 400)
-        }
+        const body = JSON.parse(await readBody(req)) as SpawnRequest
+        const spawnError = validateSpawnRequest(body, auth)
+        if (spawnError) return json(res, { error: spawnError } as ErrorResponse, 400)
 
-        const result = await spawn({
-          task,
-          workdir,
-          model,
-          provider,
-          forceBackend: backend as 'sdk' | 'tmux' | undefined,
-        })
+        const result = await spawnFromRequest(body, auth.userId)
         const response: SpawnResponse = { session: result.row, backend: result.backend }
         return json(res, response, 201)
       }
 
+      // GET /events — SSE stream of every visible session (?sessions=a,b to narrow)
+      if (path === '/events' && req.method === 'GET') {
+        const auth = requireAuth(req, res)
+        if (!auth) return
+
+        const ids = url.searchParams.get('sessions')?.split(',').filter(Boolean) ?? []
+        return openEventStream(req, res, auth, new Set(ids))
+      }
+
+      // GET /sessions/:id/events — SSE stream of one session
+      const eventsMatch = path.match(/^\/sessions\/([^/]+)\/events$/)
+      if (eventsMatch && req.method === 'GET') {
+        const auth = requireAuth(req, res)
+        if (!auth) return
+
+        const session = requireSession(auth, eventsMatch[1], res)
+        if (!session) return
+        return openEventStream(req, res, auth, new Set([session.id]))
+      }
+
       // GET /sessions/:id
       const getMatch = path.match(/^\/sessions\/([^/]+)$/)
       if (getMatch && req.method === 'GET') {
-        const session = getSession(getMatch[1])
-        if (!session) return json(res, { error: 'not found' } as ErrorResponse, 404)
+        const auth = requireAuth(req, res)
+        if (!auth) return
+
+        const session = requireSession(auth, getMatch[1], res)
+        if (!session) return
         const response: SessionDetailResponse = { session, alive: isAlive(session.id, session) }
         return json(res, response)
       }
@@ -170,33 +459,360 @@ export function startServer(): http.Server {
       // GET /sessions/:id/output
       const outputMatch = path.match(/^\/sessions\/([^/]+)\/output$/)
       if (outputMatch && req.method === 'GET') {
-        const session = getSession(outputMatch[1])
-        if (!session) return json(res, { error: 'not found' } as ErrorResponse, 404)
-        const output = getOutput(session.id, session)
-        const response: SessionOutputResponse = { id: session.id, output }
+        const auth = requireAuth(req, res)
+        if (!auth) return
+
+        const session = requireSession(auth, outputMatch[1], res)
+        if (!session) return
+        const query = parseOutputQuery(url.searchParams)
+        if (typeof query === 'string') return json(res, { error: query } as ErrorResponse, 400)
+
+        const page = getOutputPage(session.id, session, query ?? {})
+        if (!page) {
+          // Tmux session spawned before pane logging — no line ids to page over
+          const response: SessionOutputResponse = {
+            id: session.id,
+            output: getOutput(session.id, session),
+          }
+          return json(res, response)
+        }
+
+        const response: SessionOutputResponse = {
+          id: session.id,
+          output: page.lines.map((l) => l.text).join('\n'),
+          nextCursor: page.nextCursor,
+          ...(query ? { lines: page.lines, hasMore: page.hasMore } : {}),
+        }
         return json(res, response)
       }
 
+      // GET /sessions/:id/timeline — persisted events, oldest first
+      const timelineMatch = path.match(/^\/sessions\/([^/]+)\/timeline$/)
+      if (timelineMatch && req.method === 'GET') {
+        const auth = requireAuth(req, res)
+        if (!auth) return
+
+        const session = requireSession(auth, timelineMatch[1], res)
+        if (!session) return
+
+        const after = parseInt(url.searchParams.get('after') || '0', 10)
+        const limit = parseInt(url.searchParams.get('limit') || String(DEFAULT_TIMELINE_EVENTS), 10)
+        if (Number.isNaN(after) || after < 0 || Number.isNaN(limit) || limit < 1) {
+          return json(
+            res,
+            { error: 'after and limit must be positive integers' } as ErrorResponse,
+            400
+          )
+        }
+
+        const cappedLimit = Math.min(limit, MAX_OUTPUT_LINES)
+        const events = getEvents({ after, sessionIds: [session.id], limit: cappedLimit + 1 })
+        const hasMore = events.length > cappedLimit
+        const page = events.slice(0, cappedLimit)
+        const response: SessionTimelineResponse = {
+          id: session.id,
+          events: page,
+          nextSeq: page[page.length - 1]?.seq ?? after,
+          hasMore,
+        }
+        return json(res, response)
+      }
+
+      // GET /sessions/:id/changes — files changed in the workdir since the session started
+      // GET /sessions/:id/diff — the same as a unified diff (?path= for one file)
+      const changesMatch = path.match(/^\/sessions\/([^/]+)\/(changes|diff)$/)
+      if (changesMatch && req.method === 'GET') {
+        const auth = requireAuth(req, res)
+        if (!auth) return
+
+        const session = requireSession(auth, changesMatch[1], res)
+        if (!session) return
+        if (!session.snapshot) {
+          return json(res, { error: 'session has no workdir snapshot' } as ErrorResponse, 404)
+        }
+
+        try {
+          if (changesMatch[2] === 'changes') {
+            const response: SessionChangesResponse = {
+              id: session.id,
+              snapshot: session.snapshot,
+              files: listChanges(session),
+            }
+            return json(res, response)
+          }
+          const file = url.searchParams.get('path') ?? undefined
+          const response: SessionDiffResponse = { id: session.id, diff: diffChanges(session, file) }
+          return json(res, response)
+        } catch (err) {
+          return json(res, { error: (err as Error).message } as ErrorResponse, 409)
+        }
+      }
+
       // POST /sessions/:id/send
       const sendMatch = path.match(/^\/sessions\/([^/]+)\/send$/)
       if (sendMatch && req.method === 'POST') {
-        const session = getSession(sendMatch[1])
-        if (!session) return json(res, { error: 'not found' }, 404)
+        const auth = requireAuth(req, res)
+        if (!auth) return
+
+        const session = requireSession(auth, sendMatch[1], res)
+        if (!session) return
         const body = JSON.parse(await readBody(req))
         const ok = await sendMessage(session.id, body.message || '')
         return json(res, { ok })
       }
 
+      // GET /sessions/:id/approvals — tool calls waiting for a decision
+      const approvalsMatch = path.match(/^\/sessions\/([^/]+)\/approvals$/)
+      if (approvalsMatch && req.method === 'GET') {
+        const auth = requireAuth(req, res)
+        if (!auth) return
+
+        const session = requireSession(auth, approvalsMatch[1], res)
+        if (!session) return
+        const response: ApprovalListResponse = {
+          id: session.id,
+          approvals: listApprovals(session.id),
+        }
+        return json(res, response)
+      }
+
+      // POST /sessions/:id/approvals/:toolCallId — approve or reject a paused tool call
+      const decideMatch = path.match(/^\/sessions\/([^/]+)\/approvals\/([^/]+)$/)
+      if (decideMatch && req.method === 'POST') {
+        const auth = requireAuth(req, res)
+        if (!auth) return
+
+        const session = requireSession(auth, decideMatch[1], res)
+        if (!session) return
+        const body = JSON.parse(await readBody(req)) as ApprovalDecision
+        if (typeof body.approved !== 'boolean') {
+          const err: ErrorResponse = { error: 'approved must be a boolean' }
+          return json(res, err, 400)
+        }
+        const decision = { approved: body.approved, reason: body.reason || undefined }
+        const toolCallId = decodeURIComponent(decideMatch[2])
+        if (!decideApproval(session.id, toolCallId, decision, auth.userId)) {
+          const err: ErrorResponse = { error: 'tool call is not awaiting approval' }
+          return json(res, err, 404)
+        }
+        return json(res, { ok: true })
+      }
+
+      // POST /sessions/:id/resume — rehydrate after a restart so it accepts messages again
+      const resumeMatch = path.match(/^\/sessions\/([^/]+)\/resume$/)
+      if (resumeMatch && req.method === 'POST') {
+        const auth = requireAuth(req, res)
+        if (!auth) return
+
+        const session = requireSession(auth, resumeMatch[1], res)
+        if (!session) return
+        try {
+          await resume(session)
+        } catch (err) {
+          return json(res, { error: (err as Error).message } as ErrorResponse, 409)
+        }
+        const response: SessionDetailResponse = {
+          session: getSession(session.id) ?? session,
+          alive: isAlive(session.id, session),
+        }
+        return json(res, response)
+      }
+
       // DELETE /sessions/:id
       const deleteMatch = path.match(/^\/sessions\/([^/]+)$/)
       if (deleteMatch && req.method === 'DELETE') {
-        const session = getSession(deleteMatch[1])
-        if (!session) return json(res, { error: 'not found' }, 404)
+        const auth = requireAuth(req, res)
+        if (!auth) return
+
+        const session = requireSession(auth, deleteMatch[1], res)
+        if (!session) return
         kill(session.id, session)
         updateSession(session.id, { status: 'stopped' })
         return json(res, { ok: true })
       }
 
+      // GET /sessions/:id/checkpoints — workdir checkpoints, oldest first
+      const checkpointsMatch = path.match(/^\/sessions\/([^/]+)\/checkpoints$/)
+      if (checkpointsMatch && req.method === 'GET') {
+        const auth = requireAuth(req, res)
+        if (!auth) return
+
+        const session = requireSession(auth, checkpointsMatch[1], res)
+        if (!session) return
+        const response: CheckpointListResponse = {
+          id: session.id,
+          checkpoints: listCheckpoints(session.id),
+        }
+        return json(res, response)
+      }
+
+      // POST /sessions/:id/checkpoints/:cid/restore — roll the workdir back
+      const restoreMatch = path.match(/^\/sessions\/([^/]+)\/checkpoints\/(\d+)\/restore$/)
+      if (restoreMatch && req.method === 'POST') {
+        const auth = requireAuth(req, res)
+        if (!auth) return
+
+        const session = requireSession(auth, restoreMatch[1], res)
+        if (!session) return
+        let restored: CheckpointRestoreResponse | undefined
+        try {
+          restored = restoreCheckpoint(session, parseInt(restoreMatch[2], 10))
+        } catch (err) {
+          return json(res, { error: (err as Error).message } as ErrorResponse, 409)
+        }
+        if (!restored) return json(res, { error: 'checkpoint not found' } as ErrorResponse, 404)
+        return json(res, restored)
+      }
+
+      // GET /worktrees — session worktrees; admins see every user's, users only their own
+      if (path === '/worktrees' && req.method === 'GET') {
+        const auth = requireAuth(req, res)
+        if (!auth) return
+
+        const rows = getSessionsWithWorktree(auth.role === 'admin' ? undefined : auth.userId)
+        const response: WorktreeListResponse = {
+          worktrees: rows.flatMap((row) => getWorktreeInfo(row) ?? []),
+        }
+        return json(res, response)
+      }
+
+      // GET /sessions/:id/worktree
+      const worktreeMatch = path.match(/^\/sessions\/([^/]+)\/worktree$/)
+      if (worktreeMatch && req.method === 'GET') {
+        const auth = requireAuth(req, res)
+        if (!auth) return
+
+        const session = requireSession(auth, worktreeMatch[1], res)
+        if (!session) return
+        const worktree = getWorktreeInfo(session)
+        if (!worktree) return json(res, { error: 'session has no worktree' } as ErrorResponse, 404)
+        const response: WorktreeResponse = { worktree }
+        return json(res, response)
+      }
+
+      // POST /sessions/:id/worktree/merge — merge the branch back; DELETE discards it
+      const mergeMatch = path.match(/^\/sessions\/([^/]+)\/worktree\/merge$/)
+      const closeMatch =
+        mergeMatch && req.method === 'POST'
+          ? mergeMatch
+          : worktreeMatch && req.method === 'DELETE'
+            ? worktreeMatch
+            : null
+      if (closeMatch) {
+        const auth = requireAuth(req, res)
+        if (!auth) return
+
+        const session = requireSession(auth, closeMatch[1], res)
+        if (!session) return
+        if (!session.worktree) {
+          return json(res, { error: 'session has no worktree' } as ErrorResponse, 404)
+        }
+        let worktree: SessionWorktree
+        try {
+          worktree = closeWorktree(session, mergeMatch ? 'merge' : 'discard')
+        } catch (err) {
+          return json(res, { error: (err as Error).message } as ErrorResponse, 409)
+        }
+        const status = getSession(session.id)?.status ?? session.status
+        const response: WorktreeResponse = {
+          worktree: { ...worktree, sessionId: session.id, status },
+        }
+        return json(res, response)
+      }
+
+      // ━━━ Task Template Endpoints ━━━
+
+      // GET /templates — admins see every template, users their own and shared ones
+      if (path === '/templates' && req.method === 'GET') {
+        const auth = requireAuth(req, res)
+        if (!auth) return
+
+        const response: TemplateListResponse = {
+          templates: listTemplates(auth.role === 'admin' ? undefined : auth.userId),
+        }
+        return json(res, response)
+      }
+
+      // POST /templates — owned by the caller
+      if (path === '/templates' && req.method === 'POST') {
+        const auth = requireAuth(req, res)
+        if (!auth) return
+
+        const body = JSON.parse(await readBody(req)) as CreateTemplateRequest
+        const error = validateTemplate(body)
+        if (error) return json(res, { error } as ErrorResponse, 400)
+
+        const response: TemplateResponse = { template: createTemplate(auth.userId, body) }
+        return json(res, response, 201)
+      }
+
+      // GET/PUT/DELETE /templates/:id — changes are for its owner and admins
+      const templateMatch = path.match(/^\/templates\/([^/]+)$/)
+      if (templateMatch && req.method === 'GET') {
+        const auth = requireAuth(req, res)
+        if (!auth) return
+
+        const template = requireTemplate(auth, templateMatch[1], res)
+        if (!template) return
+        const response: TemplateResponse = { template }
+        return json(res, response)
+      }
+
+      if (templateMatch && req.method === 'PUT') {
+        const auth = requireAuth(req, res)
+        if (!auth) return
+
+        const template = requireTemplate(auth, templateMatch[1], res, true)
+        if (!template) return
+        const body = JSON.parse(await readBody(req)) as UpdateTemplateRequest
+        const error = validateTemplate({ ...template, ...body })
+        if (error) return json(res, { error } as ErrorResponse, 400)
+
+        const updated = updateTemplate(template.id, body)
+        if (!updated) return json(res, { error: 'not found' } as ErrorResponse, 404)
+        const response: TemplateResponse = { template: updated }
+        return json(res, response)
+      }
+
+      if (templateMatch && req.method === 'DELETE') {
+        const auth = requireAuth(req, res)
+        if (!auth) return
+
+        const template = requireTemplate(auth, templateMatch[1], res, true)
+        if (!template) return
+        deleteTemplate(template.id)
+        return json(res, { ok: true })
+      }
+
+      // POST /templates/:id/spawn — fill in the variables and spawn a session
+      const templateSpawnMatch = path.match(/^\/templates\/([^/]+)\/spawn$/)
+      if (templateSpawnMatch && req.method === 'POST') {
+        const auth = requireAuth(req, res)
+        if (!auth) return
+
+        const template = requireTemplate(auth, templateSpawnMatch[1], res)
+        if (!template) return
+        const body = JSON.parse((await readBody(req)) || '{}') as TemplateSpawnRequest
+        const rendered = renderPrompt(template, body.variables)
+        if ('error' in rendered) return json(res, { error: rendered.error } as ErrorResponse, 400)
+
+        const request: SpawnRequest = {
+          task: rendered.task,
+          provider: template.provider,
+          model: template.model,
+          backend: template.backend,
+          workdir: body.workdir ?? template.workdir,
+          budget: template.budget,
+          priority: body.priority,
+        }
+        const spawnError = validateSpawnRequest(request, auth)
+        if (spawnError) return json(res, { error: spawnError } as ErrorResponse, 400)
+
+        const result = await spawnFromRequest(request, auth.userId)
+        const response: SpawnResponse = { session: result.row, backend: result.backend }
+        return json(res, response, 201)
+      }
+
       // ━━━ User Management Endpoints ━━━
 
       // POST /auth/login
@@ -0,0 +1,108 @@
+/**
+ * reef-core/approvals.ts — Human-in-the-loop approval for agent tool calls
+ *
+ * A spawn request's `approval` rules pick tool calls that must be approved before they
+ * run. The tool library emits tool.approval_required and waits on the gate; clients decide
+ * through POST /sessions/:id/approvals/:toolCallId or the WS `approve` message, and the
+ * decision is recorded as a tool.approval_decided event.
+ */
+import type { ApprovalDecision, ApprovalRequest, ApprovalRules } from './shared-types.js'
+import { emitReefEvent } from './events.js'
+
+/** Approval rules with their patterns compiled */
+export interface CompiledApprovalRules {
+  tools: Set<string>
+  commands: RegExp[]
+  writablePaths?: string[]
+}
+
+interface PendingApproval {
+  request: ApprovalRequest
+  resolve: (decision: ApprovalDecision) => void
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string')
+}
+
+/** Check a spawn request's approval rules; returns an error message if they are invalid */
+export function validateApprovalRules(rules: unknown): string | undefined {
+  if (typeof rules !== 'object' || rules === null || Array.isArray(rules)) {
+    return 'approval must be an object'
+  }
+  const { tools, commands, writablePaths } = rules as ApprovalRules
+  for (const [field, value] of Object.entries({ tools, commands, writablePaths })) {
+    if (value !== undefined && !isStringArray(value))
+      return `"${field}" must be an array of strings`
+  }
+  for (const pattern of commands ?? []) {
+    try {
+      new RegExp(pattern)
+    } catch (err) {
+      return `invalid approval pattern ${JSON.stringify(pattern)}: ${(err as Error).message}`
+    }
+  }
+  return undefined
+}
+
+export function compileApprovalRules(rules?: ApprovalRules): CompiledApprovalRules | undefined {
+  if (!rules) return undefined
+  return {
+    tools: new Set(rules.tools),
+    commands: (rules.commands ?? []).map((pattern) => new RegExp(pattern)),
+    writablePaths: rules.writablePaths,
+  }
+}
+
+/**
+ * Tool calls waiting for a decision, per session. A waiting call holds up its provider
+ * turn; closing the session rejects whatever is still pending.
+ */
+export class ApprovalGate {
+  private pending = new Map<string, Map<string, PendingApproval>>()
+
+  /** Wait for a client to decide on a tool call */
+  request(sessionId: string, request: ApprovalRequest): Promise<ApprovalDecision> {
+    return new Promise((resolve) => {
+      let calls = this.pending.get(sessionId)
+      if (!calls) this.pending.set(sessionId, (calls = new Map()))
+      calls.set(request.toolCallId, { request, resolve })
+    })
+  }
+
+  /** Record a decision. Returns false if the call isn't waiting for one. */
+  decide(
+    sessionId: string,
+    toolCallId: string,
+    decision: ApprovalDecision,
+    decidedBy?: string
+  ): boolean {
+    const calls = this.pending.get(sessionId)
+    const approval = calls?.get(toolCallId)
+    if (!calls || !approval) return false
+    calls.delete(toolCallId)
+    if (calls.size === 0) this.pending.delete(sessionId)
+
+    emitReefEvent('tool.approval_decided', sessionId, {
+      toolName: approval.request.toolName,
+      toolCallId,
+      approved: decision.approved,
+      reason: decision.reason,
+      decidedBy,
+    })
+    approval.resolve(decision)
+    return true
+  }
+
+  /** Calls waiting for a decision */
+  list(sessionId: string): ApprovalRequest[] {
+    return [...(this.pending.get(sessionId)?.values() ?? [])].map((approval) => approval.request)
+  }
+
+  /** Reject everything pending for a session that is closing */
+  cancel(sessionId: string, reason: string): void {
+    for (const request of this.list(sessionId)) {
+      this.decide(sessionId, request.toolCallId, { approved: false, reason })
+    }
+  }
+}
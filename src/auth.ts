@@ -2,10 +2,16 @@
  * reef-core/auth.ts — Simple JWT authentication
  */
 import crypto from 'crypto'
+import type { IncomingMessage } from 'http'
 import type { User } from './shared-types.js'
 
 const JWT_SECRET = process.env.JWT_SECRET || 'reef-default-secret-change-in-production'
 
+export interface AuthContext {
+  userId: string
+  role: string
+}
+
 interface JWTPayload {
   userId: string
   email: string
@@ -96,3 +102,26 @@ export function extractTokenFromHeader(authorization?: string): string | null {
   }
   return authorization.substring(7)
 }
+
+/**
+ * Resolve the caller from a Bearer header, falling back to a `token` query
+ * parameter for clients that cannot set headers (browser WebSocket).
+ */
+export function authenticate(req: IncomingMessage): AuthContext | null {
+  let token = extractTokenFromHeader(req.headers.authorization)
+  if (!token) {
+    const url = new URL(req.url || '/', 'http://localhost')
+    token = url.searchParams.get('token')
+  }
+  if (!token) return null
+
+  const payload = verifyToken(token)
+  if (!payload) return null
+
+  return { userId: payload.userId, role: payload.role }
+}
+
+/** Admins can access every session; users only the ones they own. */
+export function canAccessSession(auth: AuthContext, ownerId: string | undefined): boolean {
+  return auth.role === 'admin' || (!!ownerId && ownerId === auth.userId)
+}
@@ -0,0 +1,90 @@
+/**
+ * reef-core/budget.ts — Per-session limits on turns, tokens, cost and wall-clock time
+ *
+ * A spawn request's `budget` fills in from server defaults and is capped by server
+ * ceilings, both read from the environment (0 or unset = no limit):
+ *
+ *   REEF_BUDGET_MAX_TURNS, REEF_BUDGET_MAX_TOKENS, REEF_BUDGET_MAX_COST_USD,
+ *   REEF_BUDGET_MAX_DURATION_MS                  — defaults
+ *   REEF_BUDGET_CEILING_MAX_TURNS, ...           — ceilings
+ *
+ * The resolved budget is stored on the session row and enforced by ProviderRouter. A turn
+ * is one model response; tokens count input, output and cached tokens together.
+ */
+import type { SessionBudget } from './shared-types.js'
+import type { SessionTotals } from './db.js'
+
+/** Used when REEF_BUDGET_MAX_TURNS is unset, so a looping agent always stops eventually */
+const DEFAULT_MAX_TURNS = 100
+
+const FIELDS = ['maxTurns', 'maxTokens', 'maxCostUsd', 'maxDurationMs'] as const
+
+const ENV_NAMES: Record<keyof SessionBudget, string> = {
+  maxTurns: 'MAX_TURNS',
+  maxTokens: 'MAX_TOKENS',
+  maxCostUsd: 'MAX_COST_USD',
+  maxDurationMs: 'MAX_DURATION_MS',
+}
+
+export interface BudgetLimits {
+  defaults: SessionBudget
+  ceilings: SessionBudget
+}
+
+function envLimit(name: string): number | undefined {
+  const value = parseFloat(process.env[name] || '')
+  return Number.isNaN(value) || value <= 0 ? undefined : value
+}
+
+export function loadBudgetLimits(): BudgetLimits {
+  const defaults: SessionBudget = {}
+  const ceilings: SessionBudget = {}
+  for (const field of FIELDS) {
+    defaults[field] = envLimit(`REEF_BUDGET_${ENV_NAMES[field]}`)
+    ceilings[field] = envLimit(`REEF_BUDGET_CEILING_${ENV_NAMES[field]}`)
+  }
+  if (process.env.REEF_BUDGET_MAX_TURNS === undefined) defaults.maxTurns = DEFAULT_MAX_TURNS
+  return { defaults, ceilings }
+}
+
+const limits = loadBudgetLimits()
+
+/** Check a spawn request's budget; returns an error message if it is invalid */
+export function validateBudget(budget: unknown): string | undefined {
+  if (typeof budget !== 'object' || budget === null || Array.isArray(budget)) {
+    return 'budget must be an object'
+  }
+  for (const field of FIELDS) {
+    const value = (budget as SessionBudget)[field]
+    if (value !== undefined && (typeof value !== 'number' || !(value > 0))) {
+      return `"${field}" must be a positive number`
+    }
+  }
+  return undefined
+}
+
+/** Fill a requested budget from the server defaults and cap it at the ceilings */
+export function resolveBudget(requested: SessionBudget = {}): SessionBudget {
+  const budget: SessionBudget = {}
+  for (const field of FIELDS) {
+    const value = requested[field] ?? limits.defaults[field]
+    const ceiling = limits.ceilings[field]
+    const capped = value === undefined ? ceiling : Math.min(value, ceiling ?? Infinity)
+    if (capped !== undefined) budget[field] = capped
+  }
+  return budget
+}
+
+/** Which limit the totals have reached, if any */
+export function exceededLimit(budget: SessionBudget, totals: SessionTotals): string | undefined {
+  if (budget.maxTurns !== undefined && totals.turns >= budget.maxTurns) {
+    return `${totals.turns} turns (max ${budget.maxTurns})`
+  }
+  if (budget.maxTokens !== undefined && totals.tokens >= budget.maxTokens) {
+    return `${totals.tokens} tokens (max ${budget.maxTokens})`
+  }
+  if (budget.maxCostUsd !== undefined && totals.costUsd >= budget.maxCostUsd) {
+    return `$${totals.costUsd.toFixed(4)} spent (max $${budget.maxCostUsd})`
+  }
+  return undefined
+}
@@ -0,0 +1,242 @@
+/**
+ * reef-core/changes.ts — What a session changed in its workdir
+ *
+ * When a session starts, its workdir is snapshotted as a git tree. In a repository the
+ * working tree (tracked and untracked files, ignored ones left out) is hashed into the
+ * repo's own object store through a throwaway index, without touching HEAD, the index or
+ * any file. The snapshot and checkpoint trees are committed onto refs/reef-pins/<sessionId>
+ * so that `git gc` keeps them; the namespace stays clear of the reef/<sessionId> worktree
+ * branches. A plain directory gets a private object store under $REEF_DATA_DIR/snapshots
+ * instead, which serves as its content hash manifest. Changes and diffs compare the
+ * snapshot with a fresh one of the workdir.
+ *
+ * Whenever a session goes idle or ends with other changes than it last reported, a
+ * `files.changed` event lists them.
+ */
+import crypto from 'crypto'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import type { SessionRow } from './db.js'
+import type { FileChange, SessionStatus, WorkdirSnapshot } from './shared-types.js'
+import { getSession } from './db.js'
+import { eventBus, emitReefEvent } from './events.js'
+import { git, repoRoot, runGit, tryGit, type GitOptions } from './git.js'
+
+const DATA_DIR = process.env.REEF_DATA_DIR || path.join(process.cwd(), 'data')
+const SNAPSHOT_DIR = path.join(DATA_DIR, 'snapshots')
+
+/** Statuses at which a session's changes are reported */
+const REPORTING_STATUSES: SessionStatus[] = [
+  'idle',
+  'completed',
+  'error',
+  'stopped',
+  'budget_exceeded',
+]
+
+const CHANGE_STATUS: Record<string, FileChange['status']> = {
+  A: 'added',
+  D: 'deleted',
+  M: 'modified',
+  T: 'modified',
+}
+
+/** Committer of the commits that keep snapshot trees reachable */
+const PIN_IDENTITY = {
+  GIT_AUTHOR_NAME: 'reef',
+  GIT_AUTHOR_EMAIL: 'reef@localhost',
+  GIT_COMMITTER_NAME: 'reef',
+  GIT_COMMITTER_EMAIL: 'reef@localhost',
+}
+
+/** What each running session last reported, to skip repeats */
+const reported = new Map<string, string>()
+
+type SnapshotRow = Pick<SessionRow, 'id' | 'workdir' | 'snapshot'>
+
+/** Git options for a plain directory's private object store */
+function storeOptions(sessionId: string, workdir: string): GitOptions {
+  const gitDir = path.join(SNAPSHOT_DIR, `${sessionId}.git`)
+  return {
+    env: { GIT_DIR: gitDir, GIT_WORK_TREE: workdir, GIT_INDEX_FILE: path.join(gitDir, 'index') },
+  }
+}
+
+/** Hash the workdir's files into a tree object and return its id */
+function writeTree(sessionId: string, workdir: string, kind: WorkdirSnapshot['kind']): string {
+  if (kind === 'files') {
+    const opts = storeOptions(sessionId, workdir)
+    runGit(workdir, ['add', '-A', '.'], opts)
+    return runGit(workdir, ['write-tree'], opts).trim()
+  }
+
+  // Start from a copy of the real index, so files it already has aren't hashed again
+  const index = path.resolve(workdir, git(workdir, 'rev-parse', '--git-path', 'index'))
+  const scratch = path.join(os.tmpdir(), `reef-index-${crypto.randomUUID()}`)
+  if (fs.existsSync(index)) fs.copyFileSync(index, scratch)
+  const opts: GitOptions = { env: { GIT_INDEX_FILE: scratch } }
+  try {
+    runGit(workdir, ['add', '-A', '.'], opts)
+    return runGit(workdir, ['write-tree'], opts).trim()
+  } finally {
+    fs.rmSync(scratch, { force: true })
+  }
+}
+
+/**
+ * Keep a tree in the repository's object store from being garbage collected: commit it on
+ * top of refs/reef-pins/<sessionId>, so the session's earlier trees stay reachable too.
+ */
+function pinTree(sessionId: string, workdir: string, tree: string, message: string): void {
+  const ref = `refs/reef-pins/${sessionId}`
+  const parent = tryGit(workdir, 'rev-parse', '--verify', '--quiet', ref)
+  if (parent && git(workdir, 'rev-parse', `${parent}^{tree}`) === tree) return
+  const args = ['commit-tree', tree, ...(parent ? ['-p', parent] : []), '-m', message]
+  const commit = runGit(workdir, args, { env: PIN_IDENTITY }).trim()
+  git(workdir, 'update-ref', ref, commit)
+}
+
+/** Snapshot a session's workdir; call before the agent starts */
+export function takeSnapshot(sessionId: string, workdir: string): WorkdirSnapshot {
+  const takenAt = new Date().toISOString()
+  if (repoRoot(workdir)) {
+    const head = tryGit(workdir, 'rev-parse', '--verify', 'HEAD')
+    const tree = writeTree(sessionId, workdir, 'git')
+    pinTree(sessionId, workdir, tree, `reef session ${sessionId}: snapshot`)
+    return { kind: 'git', tree, head, takenAt }
+  }
+
+  const gitDir = path.join(SNAPSHOT_DIR, `${sessionId}.git`)
+  fs.mkdirSync(SNAPSHOT_DIR, { recursive: true })
+  git(SNAPSHOT_DIR, 'init', '--bare', '--quiet', gitDir)
+  const exclude = ['node_modules/']
+  // Keep reef's own database out when the workdir contains it
+  const data = path.relative(workdir, DATA_DIR)
+  if (!data.startsWith('..') && !path.isAbsolute(data)) exclude.push(`/${data}/`)
+  fs.writeFileSync(path.join(gitDir, 'info', 'exclude'), exclude.join('\n') + '\n')
+  return { kind: 'files', tree: writeTree(sessionId, workdir, 'files'), takenAt }
+}
+
+/** The session's snapshot and workdir, with the git options to reach its object store */
+function open(row: SnapshotRow): {
+  snapshot: WorkdirSnapshot
+  workdir: string
+  opts: GitOptions
+} {
+  const { snapshot } = row
+  if (!snapshot) throw new Error('session has no workdir snapshot')
+  const workdir = row.workdir || process.cwd()
+  if (!fs.existsSync(workdir)) throw new Error(`workdir no longer exists: ${workdir}`)
+  const opts = snapshot.kind === 'files' ? storeOptions(row.id, workdir) : {}
+  return { snapshot, workdir, opts }
+}
+
+/** Run `git diff` between two trees, with paths relative to the workdir */
+function diffTrees(
+  workdir: string,
+  opts: GitOptions,
+  from: string,
+  to: string,
+  options: string[],
+  paths: string[] = []
+): string {
+  const diffArgs = ['diff', '--no-renames', '--relative', '--no-color', '--no-ext-diff']
+  return runGit(workdir, [...diffArgs, ...options, from, to, '--', ...paths], opts)
+}
+
+/** Changed files between two trees */
+function changedFiles(workdir: string, opts: GitOptions, from: string, to: string): FileChange[] {
+  // -z output alternates status letters and paths, each NUL-terminated
+  const fields = diffTrees(workdir, opts, from, to, ['--name-status', '-z']).split('\0')
+  const changes: FileChange[] = []
+  for (let i = 0; i + 1 < fields.length; i += 2) {
+    changes.push({ path: fields[i + 1], status: CHANGE_STATUS[fields[i]] ?? 'modified' })
+  }
+  return changes
+}
+
+/** Hash the session's workdir as it is now; returns a tree comparable with its snapshot */
+export function captureTree(row: SnapshotRow): string {
+  const { snapshot, workdir } = open(row)
+  return writeTree(row.id, workdir, snapshot.kind)
+}
+
+/** Keep a tree from captureTree() for later restores; see pinTree() */
+export function keepTree(row: SnapshotRow, tree: string, label: string): void {
+  const { snapshot, workdir } = open(row)
+  if (snapshot.kind === 'git') pinTree(row.id, workdir, tree, `reef session ${row.id}: ${label}`)
+}
+
+/** Files added, modified or deleted in the workdir since the session started */
+export function listChanges(row: SnapshotRow): FileChange[] {
+  const { snapshot, workdir, opts } = open(row)
+  return changedFiles(workdir, opts, snapshot.tree, writeTree(row.id, workdir, snapshot.kind))
+}
+
+/** Unified diff of the workdir since the session started, optionally of one file */
+export function diffChanges(row: SnapshotRow, file?: string): string {
+  const { snapshot, workdir, opts } = open(row)
+  const current = writeTree(row.id, workdir, snapshot.kind)
+  return diffTrees(workdir, opts, snapshot.tree, current, [], file ? [file] : [])
+}
+
+/**
+ * Put the workdir back the way it was in `tree`, one taken by captureTree(). Files are
+ * rewritten from the object store and ones created since are deleted; files ignored by
+ * the snapshot are left alone. Returns what the restore changed.
+ */
+export function restoreTree(row: SnapshotRow, tree: string): FileChange[] {
+  const { snapshot, workdir, opts } = open(row)
+  const current = writeTree(row.id, workdir, snapshot.kind)
+  const changes = changedFiles(workdir, opts, current, tree)
+
+  const added = changes.filter((change) => change.status !== 'deleted').map((c) => c.path)
+  if (added.length > 0) {
+    // Check the files out of a scratch index holding the tree, not the real one
+    const scratch = path.join(os.tmpdir(), `reef-index-${crypto.randomUUID()}`)
+    const scratchOpts: GitOptions = { env: { ...opts.env, GIT_INDEX_FILE: scratch } }
+    try {
+      runGit(workdir, ['read-tree', tree], scratchOpts)
+      runGit(workdir, ['checkout-index', '--force', '-z', '--stdin'], {
+        ...scratchOpts,
+        input: added.join('\0'),
+      })
+    } finally {
+      fs.rmSync(scratch, { force: true })
+    }
+  }
+  for (const change of changes) {
+    if (change.status === 'deleted') fs.rmSync(path.join(workdir, change.path), { force: true })
+  }
+  return changes
+}
+
+function reportChanges(sessionId: string, ended: boolean): void {
+  const row = getSession(sessionId)
+  if (!row?.snapshot) return
+  let files: FileChange[]
+  try {
+    files = listChanges(row)
+  } catch (err) {
+    console.warn(`Could not list changes of ${sessionId}:`, (err as Error).message)
+    return
+  }
+  const key = JSON.stringify(files)
+  if (key !== (reported.get(sessionId) ?? '[]')) {
+    emitReefEvent('files.changed', sessionId, { files })
+  }
+  if (ended) reported.delete(sessionId)
+  else reported.set(sessionId, key)
+}
+
+/** Emit `files.changed` as sessions go idle or end. Call once at startup. */
+export function watchChanges(): void {
+  eventBus.onReef((event) => {
+    const ended = event.type === 'session.end'
+    if (ended || (event.type === 'status' && REPORTING_STATUSES.includes(event.data.status))) {
+      // Hashing the workdir can take a moment; don't hold up the event's other listeners
+      setImmediate(() => reportChanges(event.sessionId, ended))
+    }
+  })
+}
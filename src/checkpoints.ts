@@ -0,0 +1,82 @@
+/**
+ * reef-core/checkpoints.ts — Workdir checkpoints and rollback
+ *
+ * A checkpoint is a tree of the session's workdir, hashed the same way as its start
+ * snapshot (see changes.ts). One is taken when the session starts, at the start of every
+ * model turn and before every tool call that writes files; one that would match the
+ * previous checkpoint is skipped. Restoring a checkpoint first checkpoints the current
+ * state, so a restore can itself be undone.
+ */
+import type { SessionRow } from './db.js'
+import type { Checkpoint, CheckpointReason, FileChange, WorkdirSnapshot } from './shared-types.js'
+import { addCheckpoint, getCheckpoint, getCheckpoints, getSession, updateSession } from './db.js'
+import { emitReefEvent } from './events.js'
+import { captureTree, keepTree, restoreTree } from './changes.js'
+
+/**
+ * Checkpoint a session's workdir, unless it hasn't changed since the last checkpoint.
+ * Pass `tree` when it was just hashed anyway. Returns the new checkpoint, if any.
+ */
+export function createCheckpoint(
+  sessionId: string,
+  reason: CheckpointReason,
+  detail?: string,
+  tree?: string
+): Checkpoint | undefined {
+  const row = getSession(sessionId)
+  if (!row?.snapshot) return undefined
+  try {
+    tree ??= captureTree(row)
+    if (getCheckpoints(sessionId).at(-1)?.tree === tree) return undefined
+    keepTree(row, tree, `${reason} checkpoint`)
+  } catch (err) {
+    console.warn(`Could not checkpoint ${sessionId}:`, (err as Error).message)
+    return undefined
+  }
+
+  const checkpoint = addCheckpoint({
+    sessionId,
+    reason,
+    detail,
+    tree,
+    createdAt: new Date().toISOString(),
+  })
+  emitReefEvent('checkpoint.created', sessionId, {
+    checkpointId: checkpoint.id,
+    reason,
+    ...(detail && { detail }),
+  })
+  return checkpoint
+}
+
+/**
+ * Store a session's start snapshot on its row and take the 'start' checkpoint from it.
+ * Done before the first turn runs, so that turn can be rolled back on its own.
+ */
+export function recordStartSnapshot(row: SessionRow, snapshot: WorkdirSnapshot): void {
+  updateSession(row.id, { snapshot })
+  row.snapshot = snapshot
+  createCheckpoint(row.id, 'start', undefined, snapshot.tree)
+}
+
+export function listCheckpoints(sessionId: string): Checkpoint[] {
+  return getCheckpoints(sessionId)
+}
+
+/**
+ * Roll a session's workdir back to one of its checkpoints. Returns undefined if the
+ * session has no such checkpoint; throws while the session is running.
+ */
+export function restoreCheckpoint(
+  row: SessionRow,
+  checkpointId: number
+): { checkpoint: Checkpoint; files: FileChange[] } | undefined {
+  const checkpoint = getCheckpoint(checkpointId)
+  if (!checkpoint || checkpoint.sessionId !== row.id) return undefined
+  if (row.status === 'running') throw new Error('session is running')
+
+  createCheckpoint(row.id, 'restore', `checkpoint ${checkpoint.id}`)
+  const files = restoreTree(row, checkpoint.tree)
+  emitReefEvent('checkpoint.restored', row.id, { checkpointId: checkpoint.id, files })
+  return { checkpoint, files }
+}
@@ -5,7 +5,29 @@
  * so agent.ts and api.ts don't need changes.
  */
 import path from 'path'
-import { SqliteSessionStore } from './storage.js'
+import {
+  SqliteSessionStore,
+  type SessionFilter,
+  type SessionPage,
+  type OutputQuery,
+  type OutputPage,
+  type EventQuery,
+  type UsageQuery,
+  type UsageRecord,
+  type SessionTotals,
+} from './storage.js'
+import type { Checkpoint, ReefEvent, SequencedReefEvent, UsageSummary } from './shared-types.js'
+
+export type {
+  SessionFilter,
+  SessionPage,
+  OutputQuery,
+  OutputPage,
+  EventQuery,
+  UsageQuery,
+  UsageRecord,
+  SessionTotals,
+} from './storage.js'
 
 const DATA_DIR = process.env.REEF_DATA_DIR || path.join(process.cwd(), 'data')
 const DB_PATH = process.env.REEF_DB_PATH || path.join(DATA_DIR, 'reef.db')
@@ -35,6 +57,26 @@ export function getAllSessions(): SessionRow[] {
   return store.getAll()
 }
 
+export function listSessions(filter: SessionFilter): SessionPage {
+  return store.list(filter)
+}
+
+export function countSessions(): number {
+  return store.count()
+}
+
+export function getSessionsByStatus(status: SessionRow['status']): SessionRow[] {
+  return store.getByStatus(status)
+}
+
+export function getSessionsWithWorktree(userId?: string): Omit<SessionRow, 'output'>[] {
+  return store.getWithWorktree(userId)
+}
+
+export function getSessionOwner(id: string): string | undefined {
+  return store.getOwner(id)
+}
+
 export function updateSession(id: string, updates: Partial<SessionRow>): void {
   store.update(id, updates)
 }
@@ -43,6 +85,58 @@ export function appendOutput(id: string, line: string): void {
   store.appendOutput(id, line)
 }
 
+export function getOutputPage(id: string, query: OutputQuery): OutputPage {
+  return store.getOutputPage(id, query)
+}
+
+export function getOutputOffset(id: string): number {
+  return store.getOutputOffset(id)
+}
+
+export function appendCapturedOutput(id: string, lines: string[], offset: number): void {
+  store.appendCapturedOutput(id, lines, offset)
+}
+
+export function appendEvent(event: ReefEvent): number {
+  return store.appendEvent(event)
+}
+
+export function getEvents(query: EventQuery): SequencedReefEvent[] {
+  return store.getEvents(query)
+}
+
+export function pruneEvents(before: string | undefined, keep: number): number {
+  return store.pruneEvents(before, keep)
+}
+
+export function addCheckpoint(checkpoint: Omit<Checkpoint, 'id'>): Checkpoint {
+  return store.addCheckpoint(checkpoint)
+}
+
+export function getCheckpoints(sessionId: string): Checkpoint[] {
+  return store.getCheckpoints(sessionId)
+}
+
+export function getCheckpoint(id: number): Checkpoint | undefined {
+  return store.getCheckpoint(id)
+}
+
+export function recordUsage(record: UsageRecord): SessionTotals | undefined {
+  return store.recordUsage(record)
+}
+
+export function aggregateUsage(query: UsageQuery): UsageSummary[] {
+  return store.aggregateUsage(query)
+}
+
+export function getConversation(id: string): unknown[] | undefined {
+  return store.getConversation(id)
+}
+
+export function saveConversation(id: string, messages: unknown[]): void {
+  store.saveConversation(id, messages)
+}
+
 export function deleteSession(id: string): void {
   store.delete(id)
 }
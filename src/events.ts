@@ -1,23 +1,73 @@
 /**
- * reef-core/events.ts — Event bus for WebSocket broadcasting
+ * reef-core/events.ts — Durable event bus for WebSocket / SSE broadcasting
+ *
+ * Every event is written to the events table before it is broadcast; the row's
+ * autoincrement seq is the event's sequence number, so clients can replay from any point.
+ *
+ * Old events are pruned every hour:
+ *
+ *   REEF_EVENT_RETENTION_DAYS  delete events older than this (default 7, 0 = keep)
+ *   REEF_EVENT_MAX_ROWS        keep at most this many events (default 1000000, 0 = no cap)
  */
 import { EventEmitter } from 'events'
-import type { ReefEvent, ReefEventType } from './shared-types.js'
+import { appendEvent, getEvents, pruneEvents } from './db.js'
+import type { EventQuery } from './storage.js'
+import type { ReefEvent, ReefEventType, SequencedReefEvent } from './shared-types.js'
 
-export type { ReefEvent } from './shared-types.js'
+export type { ReefEvent, SequencedReefEvent } from './shared-types.js'
+
+/** Events read from the database at a time while replaying */
+const REPLAY_PAGE_SIZE = 1000
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function envInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10)
+  return Number.isNaN(value) || value < 0 ? fallback : value
+}
 
 class ReefEventBus extends EventEmitter {
   emitReef(payload: ReefEvent): boolean {
-    return super.emit('reef', payload)
+    const event = { ...payload, seq: appendEvent(payload) } as SequencedReefEvent
+    return super.emit('reef', event)
   }
 
-  onReef(listener: (payload: ReefEvent) => void): this {
+  onReef(listener: (payload: SequencedReefEvent) => void): this {
     return super.on('reef', listener)
   }
+
+  /**
+   * Persisted events with a sequence number greater than `seq`, oldest first, read a page
+   * at a time. `filter` narrows them to some sessions or one owner's sessions.
+   */
+  *since(
+    seq: number,
+    filter: Pick<EventQuery, 'sessionIds' | 'ownerId'> = {}
+  ): Generator<SequencedReefEvent> {
+    for (;;) {
+      const page = getEvents({ ...filter, after: seq, limit: REPLAY_PAGE_SIZE })
+      yield* page
+      if (page.length < REPLAY_PAGE_SIZE) return
+      seq = page[page.length - 1].seq
+    }
+  }
 }
 
 export const eventBus = new ReefEventBus()
 
+/** Delete events past the retention limits, now and every hour after. Call once at startup. */
+export function startEventRetention(): void {
+  const days = envInt('REEF_EVENT_RETENTION_DAYS', 7)
+  const maxRows = envInt('REEF_EVENT_MAX_ROWS', 1000000)
+  const prune = () => {
+    const before = days > 0 ? new Date(Date.now() - days * DAY_MS).toISOString() : undefined
+    const deleted = pruneEvents(before, maxRows)
+    if (deleted > 0) console.log(`🧹 Pruned ${deleted} old event(s)`)
+  }
+  prune()
+  setInterval(prune, PRUNE_INTERVAL_MS).unref()
+}
+
 export function emitReefEvent(
   type: ReefEventType,
   sessionId: string,
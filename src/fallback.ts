@@ -0,0 +1,70 @@
+/**
+ * reef-core/fallback.ts — Provider fallback chains
+ *
+ * A spawn request's `fallback` lists provider/model candidates to try, in order, when the
+ * requested provider can't open a session or its first turn fails with a provider error
+ * (see ProviderRouter). Requests without one use the server default from REEF_FALLBACK, a
+ * comma-separated list of `provider` or `provider:model`, e.g. `openai:gpt-4o-mini,google`.
+ */
+import type { ProviderCandidate } from './shared-types.js'
+import { hasProvider } from './providers/index.js'
+
+let defaultFallback: ProviderCandidate[] = []
+
+function parseCandidates(spec: string): ProviderCandidate[] {
+  return spec
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [provider, ...model] = entry.split(':')
+      return model.length > 0 ? { provider, model: model.join(':') } : { provider }
+    })
+}
+
+/**
+ * Read the default chain from REEF_FALLBACK. Call once at startup, after provider plugins
+ * are loaded; unknown providers are logged and dropped. Returns the chain.
+ */
+export function loadDefaultFallback(): ProviderCandidate[] {
+  const candidates = parseCandidates(process.env.REEF_FALLBACK || '')
+  defaultFallback = candidates.filter((candidate) => {
+    if (hasProvider(candidate.provider)) return true
+    console.warn(`⚠️  Ignoring unknown provider in REEF_FALLBACK: ${candidate.provider}`)
+    return false
+  })
+  return defaultFallback
+}
+
+/** Check a spawn request's fallback chain; returns an error message if it is invalid */
+export function validateFallback(fallback: unknown): string | undefined {
+  if (!Array.isArray(fallback)) return 'fallback must be an array'
+  for (const candidate of fallback as ProviderCandidate[]) {
+    if (typeof candidate !== 'object' || candidate === null || !candidate.provider) {
+      return 'fallback entries need a "provider"'
+    }
+    if (!hasProvider(candidate.provider)) return `unknown provider: ${candidate.provider}`
+    if (candidate.model !== undefined && typeof candidate.model !== 'string') {
+      return '"model" must be a string'
+    }
+  }
+  return undefined
+}
+
+/**
+ * The full chain for a session: the requested provider first, then its fallback (or the
+ * server default) without repeats.
+ */
+export function resolveCandidates(
+  primary: ProviderCandidate,
+  fallback: ProviderCandidate[] = defaultFallback
+): ProviderCandidate[] {
+  const chain = [primary]
+  for (const candidate of fallback) {
+    const repeat = chain.some(
+      (c) => c.provider === candidate.provider && (c.model ?? '') === (candidate.model ?? '')
+    )
+    if (!repeat) chain.push({ provider: candidate.provider, model: candidate.model })
+  }
+  return chain
+}
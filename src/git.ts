@@ -0,0 +1,45 @@
+/**
+ * reef-core/git.ts — Running the git CLI
+ */
+import { spawnSync } from 'child_process'
+
+export interface GitOptions {
+  /** Extra environment variables, e.g. GIT_INDEX_FILE */
+  env?: Record<string, string>
+  /** Written to git's stdin */
+  input?: string
+}
+
+/** Run git in `dir` and return its raw output; throws with git's own message on failure */
+export function runGit(dir: string, args: string[], opts: GitOptions = {}): string {
+  const result = spawnSync('git', ['-C', dir, ...args], {
+    encoding: 'utf-8',
+    env: opts.env ? { ...process.env, ...opts.env } : process.env,
+    input: opts.input,
+    maxBuffer: 256 * 1024 * 1024,
+  })
+  if (result.error) throw result.error
+  if (result.status !== 0) {
+    throw new Error(result.stderr.trim() || `git ${args[0]} exited with ${result.status}`)
+  }
+  return result.stdout
+}
+
+/** Run git in `dir` and return its trimmed output */
+export function git(dir: string, ...args: string[]): string {
+  return runGit(dir, args).trim()
+}
+
+/** Like git(), but undefined instead of throwing */
+export function tryGit(dir: string, ...args: string[]): string | undefined {
+  try {
+    return git(dir, ...args)
+  } catch {
+    return undefined
+  }
+}
+
+/** Top-level directory of the repository containing `dir`, if it is in one */
+export function repoRoot(dir: string): string | undefined {
+  return tryGit(dir, 'rev-parse', '--show-toplevel')
+}
@@ -6,15 +6,45 @@
  */
 import { initDatabase, closeDatabase } from './db.js'
 import { initializeDefaultAdmin, closeUserDatabase } from './user-db.js'
+import { closeTemplateDatabase } from './template-db.js'
 import { startServer } from './api.js'
+import { recoverSessions, resumeQueuedSessions } from './agent.js'
+import { loadProviderPlugins } from './providers/loader.js'
+import { loadPolicy } from './policy.js'
+import { loadPrices } from './usage.js'
+import { loadDefaultFallback } from './fallback.js'
+import { startEventRetention } from './events.js'
 
 export * from './shared-types.js'
+// For provider plugins
+export type { AgentProvider, ProviderContext, ProviderSession } from './providers/types.js'
 
 console.log('🦖 reef-core v0.3.0 starting...')
 initDatabase()
 console.log('📦 Database initialized')
 initializeDefaultAdmin()
+startEventRetention()
+const policyFile = loadPolicy()
+if (policyFile) console.log(`🛡️  Tool policy loaded from ${policyFile}`)
+const priced = loadPrices()
+if (priced > 0) console.log(`💲 Loaded prices for ${priced} model(s)`)
+const plugins = await loadProviderPlugins()
+if (plugins.length > 0) console.log(`🧩 Loaded provider plugin(s): ${plugins.join(', ')}`)
+const fallback = loadDefaultFallback()
+if (fallback.length > 0) {
+  const chain = fallback.map((c) => (c.model ? `${c.provider}:${c.model}` : c.provider))
+  console.log(`🪂 Default provider fallback: ${chain.join(' → ')}`)
+}
 const server = startServer()
+recoverSessions()
+  .then(({ reattached, interrupted }) => {
+    if (reattached > 0) console.log(`🔗 Reattached ${reattached} tmux session(s)`)
+    if (interrupted > 0) console.log(`⏸️  Marked ${interrupted} session(s) interrupted`)
+    return resumeQueuedSessions()
+  })
+  .then((count) => {
+    if (count > 0) console.log(`⏳ Re-queued ${count} waiting session(s)`)
+  })
 
 function shutdown(signal: string): void {
   console.log(`\n🛑 ${signal} received, shutting down...`)
@@ -23,6 +53,7 @@ function shutdown(signal: string): void {
   })
   closeDatabase()
   closeUserDatabase()
+  closeTemplateDatabase()
   console.log('📦 Database closed')
   process.exit(0)
 }
@@ -0,0 +1,222 @@
+/**
+ * reef-core/policy.ts — What agent tools may do, and where sessions may run
+ *
+ * The server policy comes from REEF_POLICY_FILE (default $REEF_DATA_DIR/policy.json); every
+ * field is optional. A spawn request's `policy` can tighten it for one session but never
+ * loosen it: deny patterns add up, every allow list must match, limits take the lower value.
+ *
+ * Workdir roots apply to every session. Command patterns, limits and env scrubbing apply to
+ * the shared tool library (providers/tools.ts). Pi SDK and tmux sessions run their own tools,
+ * so while the server policy restricts tools only admins may spawn them (checkPolicyCoverage).
+ */
+import fs from 'fs'
+import path from 'path'
+import type { ToolPolicy } from './shared-types.js'
+
+const DATA_DIR = process.env.REEF_DATA_DIR || path.join(process.cwd(), 'data')
+const POLICY_FILE = process.env.REEF_POLICY_FILE || path.join(DATA_DIR, 'policy.json')
+
+/** Provider whose sessions (Pi SDK, or claude in tmux) run their own tools */
+const SELF_TOOLED_PROVIDER = 'anthropic'
+
+const DEFAULT_TIMEOUT_MS = 30000
+const DEFAULT_MAX_OUTPUT_CHARS = 20000
+const DEFAULT_ENV_ALLOW = [
+  'PATH',
+  'HOME',
+  'USER',
+  'LOGNAME',
+  'SHELL',
+  'LANG',
+  'LC_ALL',
+  'LC_CTYPE',
+  'TERM',
+  'TMPDIR',
+  'TZ',
+]
+
+export interface ServerPolicy extends ToolPolicy {
+  /** Session workdirs must be inside one of these directories (unrestricted if empty) */
+  allowedRoots?: string[]
+  /** Environment variables passed through to tool processes; everything else is dropped */
+  envAllow?: string[]
+}
+
+/** A session's policy merged with the server's, ready to enforce */
+export interface EffectivePolicy {
+  /** A command must match at least one pattern of every list */
+  allow: RegExp[][]
+  deny: RegExp[]
+  timeoutMs: number
+  maxOutputChars: number
+  env: NodeJS.ProcessEnv
+}
+
+let server: ServerPolicy = {}
+
+function compile(patterns: string[] | undefined, field: string): RegExp[] {
+  if (patterns === undefined) return []
+  if (!Array.isArray(patterns)) throw new Error(`"${field}" must be an array of regexes`)
+  return patterns.map((pattern) => {
+    try {
+      return new RegExp(pattern)
+    } catch (err) {
+      throw new Error(
+        `invalid ${field} pattern ${JSON.stringify(pattern)}: ${(err as Error).message}`
+      )
+    }
+  })
+}
+
+function positive(value: unknown, field: string): number | undefined {
+  if (value === undefined) return undefined
+  if (typeof value !== 'number' || !(value > 0))
+    throw new Error(`"${field}" must be a positive number`)
+  return value
+}
+
+/** Check a spawn request's policy; returns an error message if it is invalid */
+export function validatePolicy(policy: unknown): string | undefined {
+  if (typeof policy !== 'object' || policy === null || Array.isArray(policy)) {
+    return 'policy must be an object'
+  }
+  const p = policy as ToolPolicy
+  try {
+    compile(p.allowCommands, 'allowCommands')
+    compile(p.denyCommands, 'denyCommands')
+    positive(p.timeoutMs, 'timeoutMs')
+    positive(p.maxOutputChars, 'maxOutputChars')
+    return undefined
+  } catch (err) {
+    return (err as Error).message
+  }
+}
+
+/**
+ * Load the server policy. Call once at startup; returns the file read, if any. Throws if
+ * the file is invalid, since running with a half-read policy would be less strict than
+ * intended.
+ */
+export function loadPolicy(): string | undefined {
+  if (!fs.existsSync(POLICY_FILE)) return undefined
+  const policy = JSON.parse(fs.readFileSync(POLICY_FILE, 'utf8')) as ServerPolicy
+  const error = validatePolicy(policy)
+  if (error) throw new Error(`${POLICY_FILE}: ${error}`)
+  if (policy.allowedRoots !== undefined && !Array.isArray(policy.allowedRoots)) {
+    throw new Error(`${POLICY_FILE}: "allowedRoots" must be an array`)
+  }
+  server = {
+    ...policy,
+    allowedRoots: policy.allowedRoots?.map((root) => realpath(path.resolve(root))),
+  }
+  return POLICY_FILE
+}
+
+/**
+ * Resolve symlinks so confinement checks compare real locations. For a path that doesn't
+ * exist yet, its nearest existing ancestor is resolved instead.
+ */
+function realpath(target: string): string {
+  try {
+    return fs.realpathSync(target)
+  } catch {
+    const parent = path.dirname(target)
+    return parent === target ? target : path.join(realpath(parent), path.basename(target))
+  }
+}
+
+function isInside(root: string, target: string): boolean {
+  const relative = path.relative(root, target)
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative))
+}
+
+/** Check a session workdir against the allowed roots; returns an error message if refused */
+export function checkWorkdir(workdir: string): string | undefined {
+  const roots = server.allowedRoots
+  if (!roots || roots.length === 0) return undefined
+  const real = realpath(path.resolve(workdir))
+  if (roots.some((root) => isInside(root, real))) return undefined
+  return `workdir must be inside one of: ${roots.join(', ')}`
+}
+
+/** Whether the server policy restricts tools beyond the workdir roots */
+function restrictsTools(): boolean {
+  const { allowCommands, denyCommands, timeoutMs, maxOutputChars, envAllow } = server
+  return [allowCommands, denyCommands, timeoutMs, maxOutputChars, envAllow].some(
+    (field) => field !== undefined
+  )
+}
+
+/**
+ * Whether a session that may run on any of `providers` could use tools outside the shared
+ * library, where neither this policy nor approval rules reach
+ */
+export function runsOwnTools(providers: string[]): boolean {
+  return providers.includes(SELF_TOOLED_PROVIDER)
+}
+
+/**
+ * Check that the policy can cover a session that may run on any of `providers`. The
+ * anthropic provider's tools are out of its reach, so a session policy can't apply to it,
+ * and non-admins can't use it while the server policy restricts tools. Returns an error
+ * message if the session would escape the policy.
+ */
+export function checkPolicyCoverage(
+  providers: string[],
+  sessionPolicy: ToolPolicy | undefined,
+  admin: boolean
+): string | undefined {
+  if (!runsOwnTools(providers)) return undefined
+  if (sessionPolicy !== undefined) {
+    return `policy can't be enforced on the ${SELF_TOOLED_PROVIDER} provider (Pi SDK and tmux)`
+  }
+  if (!admin && restrictsTools()) {
+    return `the tool policy doesn't cover the ${SELF_TOOLED_PROVIDER} provider (Pi SDK and tmux); only admins can spawn it`
+  }
+  return undefined
+}
+
+/**
+ * Resolve a tool's path argument inside the session workdir. Returns undefined if it
+ * points (or links) outside.
+ */
+export function resolveInside(workdir: string, target: string): string | undefined {
+  const resolved = path.resolve(workdir, target)
+  return isInside(realpath(workdir), realpath(resolved)) ? resolved : undefined
+}
+
+/** Merge a session's policy into the server policy */
+export function resolvePolicy(session: ToolPolicy = {}): EffectivePolicy {
+  const allow = [
+    compile(server.allowCommands, 'allowCommands'),
+    compile(session.allowCommands, 'allowCommands'),
+  ].filter((list) => list.length > 0)
+  const limit = (own: number | undefined, ceiling: number | undefined, fallback: number) =>
+    Math.min(own ?? Infinity, ceiling ?? fallback)
+
+  const env: NodeJS.ProcessEnv = {}
+  for (const name of server.envAllow ?? DEFAULT_ENV_ALLOW) {
+    if (process.env[name] !== undefined) env[name] = process.env[name]
+  }
+
+  return {
+    allow,
+    deny: [
+      ...compile(server.denyCommands, 'denyCommands'),
+      ...compile(session.denyCommands, 'denyCommands'),
+    ],
+    timeoutMs: limit(session.timeoutMs, server.timeoutMs, DEFAULT_TIMEOUT_MS),
+    maxOutputChars: limit(session.maxOutputChars, server.maxOutputChars, DEFAULT_MAX_OUTPUT_CHARS),
+    env,
+  }
+}
+
+/** Check a shell command; returns the reason if the policy refuses it */
+export function checkCommand(policy: EffectivePolicy, command: string): string | undefined {
+  const denied = policy.deny.find((pattern) => pattern.test(command))
+  if (denied) return `command matches deny pattern ${denied.source}`
+  if (policy.allow.some((list) => !list.some((pattern) => pattern.test(command)))) {
+    return 'command is not in the allow list'
+  }
+  return undefined
+}
@@ -1,76 +1,430 @@
 /**
- * ProviderRouter — selects and invokes the right provider from the registry
+ * ProviderRouter — the single path for spawning, messaging, killing and counting sessions
+ *
+ * Every registry provider (Anthropic via the Pi SDK, OpenAI, Google) shares one lifecycle:
+ * a ProviderSession is opened per reef session, each prompt runs a turn, and between
+ * turns the session sits idle awaiting a follow-up. Tmux sessions are delegated to
+ * SessionManager.
+ *
+ * Session budgets are enforced here for every backend: usage reports are checked against
+ * the turn, token and cost limits, and a timer ends the session at its duration limit.
+ *
+ * A session spawned with a fallback chain moves to the next provider candidate when its
+ * provider can't open a session, or its first turn fails with a provider error before
+ * any model response.
  */
-import type { Provider } from './shared-types.js'
-import type { ProviderContext } from './providers/types.js'
-import { getProvider } from './providers/index.js'
-import { appendOutput, updateSession } from './db.js'
+import type {
+  ApprovalRules,
+  Backend,
+  Provider,
+  ProviderCandidate,
+  ProviderFallbackEvent,
+  SessionBudget,
+  SessionError,
+  ToolPolicy,
+  WorkdirSnapshot,
+} from './shared-types.js'
+import type { AgentProvider, ProviderContext, ProviderSession } from './providers/types.js'
+import { getProvider, listProviders } from './providers/index.js'
+import {
+  appendOutput,
+  getConversation,
+  getSession,
+  saveConversation,
+  updateSession,
+  type SessionRow,
+} from './db.js'
 import { emitReefEvent } from './events.js'
+import { resolvePolicy } from './policy.js'
+import { ApprovalGate, compileApprovalRules } from './approvals.js'
+import { classifyError } from './providers/retry.js'
+import { recordUsage } from './usage.js'
+import { exceededLimit } from './budget.js'
 import { SessionManager } from './session-manager.js'
+import { createCheckpoint, recordStartSnapshot } from './checkpoints.js'
 
-const DEFAULT_MODELS: Record<string, string> = {
-  openai: 'gpt-4o',
-  google: 'gemini-2.5-flash',
+export interface RouteOptions {
+  model?: string
+  workdir?: string
+  userId?: string
+  providerOptions?: Record<string, unknown>
+  toolPolicy?: ToolPolicy
+  approvalRules?: ApprovalRules
+  /** Resolved limits, see budget.ts */
+  budget?: SessionBudget
+  /** Candidates to try, in order, after `provider` and `model` (see fallback.ts) */
+  fallback?: ProviderCandidate[]
+  /** The workdir's start snapshot, stored before the first turn runs (see changes.ts) */
+  snapshot?: WorkdirSnapshot
+}
+
+interface ActiveSession {
+  provider: AgentProvider
+  session: ProviderSession
+  /** The turn in flight, if any */
+  turn: Promise<void> | null
+  /** Set until the first turn succeeds; a provider failure before then moves down the chain */
+  fallback?: FallbackState
+}
+
+interface FallbackState {
+  task: string
+  opts: RouteOptions
+  candidates: ProviderCandidate[]
+  /** The candidate running now */
+  index: number
 }
 
 export class ProviderRouter {
+  private sessions = new Map<string, ActiveSession>()
+  /** Tool calls paused for approval */
+  readonly approvals = new ApprovalGate()
+  /** Timers that end sessions at their duration limit */
+  private deadlines = new Map<string, NodeJS.Timeout>()
+
   constructor(private sessionMgr: SessionManager) {}
 
+  /** Whether a provider is registered and its runtime can be loaded */
+  async isAvailable(provider: Provider): Promise<boolean> {
+    const agentProvider = getProvider(provider)
+    if (!agentProvider) return false
+    return agentProvider.isAvailable ? agentProvider.isAvailable() : true
+  }
+
+  /** Backend recorded for the provider's sessions */
+  backendOf(provider: Provider): Backend {
+    return this.requireProvider(provider).backend
+  }
+
   /**
-   * Route a task to the appropriate provider and run it.
-   * Returns the session row. The provider runs asynchronously.
+   * Open a session with the provider and run the task as its first turn.
+   * Returns the session row. The turn runs asynchronously. A provider that can't open
+   * a session gives way to the next fallback candidate; throws, without creating a row,
+   * if none can.
    */
   async route(
     sessionId: string,
     task: string,
     provider: Provider,
-    model?: string,
-    workdir?: string
-  ) {
-    const resolvedModel = model || DEFAULT_MODELS[provider] || 'unknown'
-    const resolvedWorkdir = workdir || process.cwd()
+    opts: RouteOptions = {}
+  ): Promise<SessionRow> {
+    const candidates = [{ provider, model: opts.model }, ...(opts.fallback ?? [])]
+    const skipped: ProviderFallbackEvent['data'][] = []
+    for (const [index, candidate] of candidates.entries()) {
+      let active: ActiveSession
+      try {
+        active = await this.openCandidate(sessionId, candidate, opts, index === 0)
+      } catch (err) {
+        if (index === candidates.length - 1) throw err
+        skipped.push({ from: candidate, to: candidates[index + 1], error: classifyError(err) })
+        continue
+      }
+
+      const hasFallback = candidates.length > 1
+      const row = this.sessionMgr.createProviderRow(sessionId, task, {
+        backend: active.provider.backend,
+        provider: candidate.provider,
+        model: active.session.model,
+        workdir: opts.workdir || process.cwd(),
+        user_id: opts.userId,
+        sdk_session_file: active.session.sessionFile,
+        provider_options: opts.providerOptions,
+        tool_policy: opts.toolPolicy,
+        approval_rules: opts.approvalRules,
+        budget: opts.budget,
+        candidates: hasFallback ? candidates : undefined,
+        candidate: hasFallback ? index : undefined,
+      })
+      for (const data of skipped) emitReefEvent('provider.fallback', sessionId, { ...data })
+      if (hasFallback) active.fallback = { task, opts, candidates, index }
+      this.sessions.set(sessionId, active)
+      this.watchDeadline(row)
+      if (opts.snapshot) recordStartSnapshot(row, opts.snapshot)
+      this.runTurn(sessionId, task)
+      return row
+    }
+    throw new Error('no provider candidates')
+  }
+
+  /**
+   * Send a message to a session. Idle sessions run it as a new turn; a running turn
+   * takes it as a follow-up if the provider supports that. Returns false if the
+   * message couldn't be delivered.
+   */
+  async send(row: SessionRow, message: string): Promise<boolean> {
+    if (row.backend === 'tmux') return this.sessionMgr.sendTmuxMessage(row, message)
+
+    const active = this.sessions.get(row.id)
+    if (active?.turn) {
+      if (!active.session.followUp) return false
+      try {
+        await active.session.followUp(message)
+        return true
+      } catch {
+        return false
+      }
+    }
+    if (row.status !== 'idle') return false
+
+    // Idle sessions may not be open yet, e.g. after a restart
+    try {
+      await this.attach(row)
+    } catch {
+      return false
+    }
+    updateSession(row.id, { status: 'running' })
+    emitReefEvent('status', row.id, { status: 'running' })
+    this.runTurn(row.id, message)
+    return true
+  }
+
+  /**
+   * Reopen a stored session so it accepts follow-up messages again — after a restart
+   * or an error. The session comes back idle. Throws if there is nothing to resume.
+   */
+  async resume(row: SessionRow): Promise<void> {
+    if (row.backend === 'tmux') throw new Error('tmux sessions cannot be resumed')
+    await this.attach(row)
+    updateSession(row.id, { status: 'idle', error: undefined })
+    emitReefEvent('status', row.id, { status: 'idle' })
+  }
+
+  kill(sessionId: string, row: SessionRow): void {
+    this.clearDeadline(sessionId)
+    if (row.backend === 'tmux') this.sessionMgr.killTmux(sessionId, row)
+    else this.close(sessionId)
+    emitReefEvent('session.end', sessionId, { reason: 'killed' })
+  }
+
+  /**
+   * Arm the timer that ends a session when its duration budget runs out. Call when the
+   * session starts or is picked up again; a deadline already passed fires right away.
+   */
+  watchDeadline(row: Pick<SessionRow, 'id' | 'budget' | 'started_at'>): void {
+    const maxDurationMs = row.budget?.maxDurationMs
+    if (!maxDurationMs || !row.started_at || this.deadlines.has(row.id)) return
+    const startedAt = Date.parse(row.started_at)
+    const timer = setTimeout(
+      () => {
+        this.deadlines.delete(row.id)
+        const elapsed = Date.now() - startedAt
+        this.exceedBudget(row.id, `ran for ${elapsed}ms (max ${maxDurationMs}ms)`)
+      },
+      Math.max(0, startedAt + maxDurationMs - Date.now())
+    )
+    timer.unref()
+    this.deadlines.set(row.id, timer)
+  }
+
+  isAlive(sessionId: string, row: Pick<SessionRow, 'backend' | 'tmux_session'>): boolean {
+    if (row.backend === 'tmux') return this.sessionMgr.isTmuxAlive(row)
+    return this.sessions.has(sessionId)
+  }
+
+  /** Open sessions per registered provider, plus tmux sessions */
+  getStats(): Record<string, number> {
+    const stats: Record<string, number> = {}
+    for (const provider of listProviders()) stats[provider] = 0
+    for (const active of this.sessions.values()) stats[active.provider.name]++
+    const tmux = this.sessionMgr.getTmuxCount()
+    return { ...stats, tmux, total: this.sessions.size + tmux }
+  }
 
-    // Check registry for provider
+  private requireProvider(provider: Provider): AgentProvider {
     const agentProvider = getProvider(provider)
-    if (!agentProvider) {
-      throw new Error(`No provider registered for: ${provider}`)
+    if (!agentProvider) throw new Error(`No provider registered for: ${provider}`)
+    return agentProvider
+  }
+
+  /** Open a provider session for one candidate of a new session's chain */
+  private async openCandidate(
+    sessionId: string,
+    candidate: ProviderCandidate,
+    opts: RouteOptions,
+    primary: boolean
+  ): Promise<ActiveSession> {
+    const agentProvider = this.requireProvider(candidate.provider)
+    const session = await agentProvider.createSession(
+      this.createContext(
+        sessionId,
+        candidate.provider,
+        {
+          model: candidate.model || agentProvider.defaultModel,
+          workdir: opts.workdir || process.cwd(),
+          // Provider options are written for the requested provider only
+          options: primary ? (opts.providerOptions ?? {}) : {},
+          history: [],
+          policy: resolvePolicy(opts.toolPolicy),
+          approval: compileApprovalRules(opts.approvalRules),
+        },
+        opts.budget
+      )
+    )
+    return { provider: agentProvider, session, turn: null }
+  }
+
+  /**
+   * Move a session whose first turn failed with a provider error to the next candidate
+   * that opens, and run the task again there. Returns false if there is none, or if a
+   * model already responded — the task may have had side effects by then.
+   */
+  private async fallBack(sessionId: string, state: FallbackState, error: SessionError) {
+    if (error.kind === 'unknown' || getSession(sessionId)?.turns) return false
+    const { task, opts, candidates } = state
+    let from = candidates[state.index]
+    for (let index = state.index + 1; index < candidates.length; index++) {
+      const to = candidates[index]
+      emitReefEvent('provider.fallback', sessionId, { from, to, error })
+      let active: ActiveSession
+      try {
+        active = await this.openCandidate(sessionId, to, opts, false)
+      } catch (err) {
+        from = to
+        error = classifyError(err)
+        continue
+      }
+      // Killed while the candidate was opening
+      if (getSession(sessionId)?.status !== 'running') {
+        active.session.dispose()
+        return true
+      }
+      updateSession(sessionId, {
+        backend: active.provider.backend,
+        provider: to.provider,
+        model: active.session.model,
+        sdk_session_file: active.session.sessionFile,
+        candidate: index,
+      })
+      active.fallback = { ...state, index }
+      this.sessions.set(sessionId, active)
+      this.runTurn(sessionId, task)
+      return true
     }
+    return false
+  }
 
-    const row = this.sessionMgr.createProviderRow(sessionId, task, provider, resolvedModel)
+  /** Open the provider session for a stored row, unless it is already open */
+  private async attach(row: SessionRow): Promise<ActiveSession> {
+    const existing = this.sessions.get(row.id)
+    if (existing) return existing
 
-    const abortController = new AbortController()
-    this.sessionMgr.registerProviderRun(sessionId, abortController)
+    const agentProvider = this.requireProvider(row.provider || 'anthropic')
+    const session = await agentProvider.createSession(
+      this.createContext(
+        row.id,
+        agentProvider.name,
+        {
+          model: row.model || agentProvider.defaultModel,
+          workdir: row.workdir || process.cwd(),
+          // A session running on a fallback candidate never got provider options
+          options: (row.candidate ? undefined : row.provider_options) ?? {},
+          history: getConversation(row.id) ?? [],
+          sessionFile: row.sdk_session_file,
+          policy: resolvePolicy(row.tool_policy),
+          approval: compileApprovalRules(row.approval_rules),
+        },
+        row.budget
+      )
+    )
+    const active: ActiveSession = { provider: agentProvider, session, turn: null }
+    this.sessions.set(row.id, active)
+    this.watchDeadline(row)
+    return active
+  }
 
-    const ctx: ProviderContext = {
+  private createContext(
+    sessionId: string,
+    provider: Provider,
+    fields: Pick<
+      ProviderContext,
+      'model' | 'workdir' | 'options' | 'history' | 'sessionFile' | 'policy' | 'approval'
+    >,
+    budget?: SessionBudget
+  ): ProviderContext {
+    return {
       sessionId,
-      task,
-      model: resolvedModel,
-      workdir: resolvedWorkdir,
+      ...fields,
+      onHistory: (messages) => saveConversation(sessionId, messages),
       onOutput: (line: string) => appendOutput(sessionId, line),
+      onUsage: (usage) => {
+        const totals = recordUsage(sessionId, provider, fields.model, usage)
+        const exceeded = budget && totals && exceededLimit(budget, totals)
+        if (exceeded) this.exceedBudget(sessionId, exceeded)
+      },
+      requestApproval: (request) => this.approvals.request(sessionId, request),
+      checkpoint: (reason, detail) => {
+        createCheckpoint(sessionId, reason, detail)
+      },
       onEvent: (event) => {
         emitReefEvent(event.type, event.sessionId, event.data as Record<string, unknown>)
       },
-      signal: abortController.signal,
     }
+  }
+
+  /**
+   * Run one turn asynchronously. When the agent stops the session goes idle, awaiting
+   * a follow-up message; on failure it goes to error and the provider session is closed.
+   */
+  private runTurn(sessionId: string, prompt: string): void {
+    const active = this.sessions.get(sessionId)
+    if (!active) return
+
+    // A killed session is closed and already stopped — don't resurrect it
+    const isCurrent = () => this.sessions.get(sessionId) === active
 
-    // Run async — don't await
-    agentProvider
-      .run(ctx)
+    createCheckpoint(sessionId, 'turn')
+    active.turn = active.session.prompt(prompt)
+    active.turn
       .then(() => {
-        updateSession(sessionId, { status: 'completed' })
-        emitReefEvent('status', sessionId, { status: 'completed' })
-        emitReefEvent('session.end', sessionId, { reason: 'completed' })
-        this.sessionMgr.completeProviderSession(sessionId)
+        if (!isCurrent()) return
+        active.turn = null
+        active.fallback = undefined
+        updateSession(sessionId, { status: 'idle' })
+        emitReefEvent('status', sessionId, { status: 'idle' })
       })
-      .catch((err: Error) => {
-        const msg = `Error: ${err.message}`
+      .catch(async (err: Error) => {
+        if (!isCurrent()) return
+        this.close(sessionId)
+        const error = classifyError(err)
+        if (active.fallback && (await this.fallBack(sessionId, active.fallback, error))) return
+        const msg = `Error: ${error.message}`
         appendOutput(sessionId, msg)
         emitReefEvent('output', sessionId, { text: msg })
-        updateSession(sessionId, { status: 'error' })
-        emitReefEvent('status', sessionId, { status: 'error', error: err.message })
-        this.sessionMgr.completeProviderSession(sessionId)
+        updateSession(sessionId, { status: 'error', error })
+        emitReefEvent('status', sessionId, { status: 'error', error })
       })
+  }
+
+  /**
+   * End a running or idle session that has used up its budget. Its provider session is
+   * aborted, so a turn in flight stops before running any more tool calls.
+   */
+  private exceedBudget(sessionId: string, detail: string): void {
+    const row = getSession(sessionId)
+    if (!row || (row.status !== 'running' && row.status !== 'idle')) return
+    this.clearDeadline(sessionId)
+    if (row.backend === 'tmux') this.sessionMgr.killTmux(sessionId, row)
+    else this.close(sessionId)
+
+    const msg = `Budget exceeded: ${detail}`
+    appendOutput(sessionId, msg)
+    emitReefEvent('output', sessionId, { text: msg })
+    updateSession(sessionId, { status: 'budget_exceeded' })
+    emitReefEvent('status', sessionId, { status: 'budget_exceeded' })
+    emitReefEvent('session.end', sessionId, { reason: 'budget_exceeded', detail })
+  }
+
+  private clearDeadline(sessionId: string): void {
+    clearTimeout(this.deadlines.get(sessionId))
+    this.deadlines.delete(sessionId)
+  }
 
-    return row
+  private close(sessionId: string): void {
+    const active = this.sessions.get(sessionId)
+    if (!active) return
+    this.sessions.delete(sessionId)
+    this.approvals.cancel(sessionId, 'session closed')
+    active.session.abort()
+    active.session.dispose()
   }
 }
@@ -0,0 +1,227 @@
+/**
+ * Anthropic provider — Claude via the Pi coding agent SDK
+ *
+ * The SDK is loaded dynamically; when it isn't installed the provider reports itself
+ * unavailable and agent.ts falls back to the tmux backend. Conversations are persisted
+ * by the SDK to a session file so they can be reopened after a restart.
+ */
+import fs from 'fs'
+import path from 'path'
+import type { AgentProvider, ProviderContext, ProviderSession } from './types.js'
+import { summarizeArgs } from './tools.js'
+import { classifyError } from './retry.js'
+
+const DATA_DIR = process.env.REEF_DATA_DIR || path.join(process.cwd(), 'data')
+const SDK_SESSION_DIR = path.join(DATA_DIR, 'sdk-sessions')
+
+/** Opaque Pi SDK session */
+interface PiSession {
+  subscribe: (listener: (event: PiSdkEvent) => void) => () => void
+  prompt: (text: string) => Promise<void>
+  followUp: (text: string) => Promise<void>
+  abort: () => Promise<void>
+  dispose: () => void
+}
+
+interface PiSdkEvent {
+  type: string
+  assistantMessageEvent?: {
+    type: string
+    content?: { type: string; text?: string }
+  }
+  message?: {
+    role: string
+    content: unknown
+    usage?: PiUsage
+    stopReason?: string
+    errorMessage?: string
+  }
+  /** auto_retry_start: the SDK retries transient failures itself */
+  attempt?: number
+  maxAttempts?: number
+  delayMs?: number
+  errorMessage?: string
+  toolName?: string
+  toolCallId?: string
+  args?: unknown
+  isError?: boolean
+}
+
+interface PiUsage {
+  input: number
+  output: number
+  cacheRead: number
+  cacheWrite: number
+}
+
+interface ContentBlock {
+  type: string
+  text?: string
+}
+
+// Pi SDK dynamic imports
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+let createAgentSession: any
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+let getModel: any
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+let PiSessionManager: any
+
+async function loadPiSdk(): Promise<boolean> {
+  try {
+    const codingAgent = await import('@mariozechner/pi-coding-agent')
+    createAgentSession = codingAgent.createAgentSession
+    PiSessionManager = codingAgent.SessionManager
+    const ai = await import('@mariozechner/pi-ai')
+    getModel = ai.getModel
+    console.log('✅ Pi SDK loaded successfully')
+    return true
+  } catch (err) {
+    console.warn('⚠️  Pi SDK not available, using tmux fallback:', (err as Error).message)
+    return false
+  }
+}
+
+const sdkReady = loadPiSdk()
+
+/** Translate Pi SDK events into reef events and output lines */
+function handleSdkEvent(ctx: ProviderContext, event: PiSdkEvent): void {
+  const { sessionId } = ctx
+  switch (event.type) {
+    case 'message_update': {
+      const msg = event.assistantMessageEvent
+      if (msg?.type === 'content' && msg.content?.type === 'text') {
+        const text = msg.content.text || ''
+        if (text) {
+          ctx.onOutput(text)
+          ctx.onEvent({ type: 'output', sessionId, data: { text, streaming: true } })
+        }
+      }
+      break
+    }
+    case 'message_end': {
+      const message = event.message
+      if (message?.role === 'assistant') {
+        const content = Array.isArray(message.content)
+          ? (message.content as ContentBlock[])
+              .filter((c) => c.type === 'text')
+              .map((c) => c.text || '')
+              .join('')
+          : String(message.content || '')
+        if (content) {
+          ctx.onEvent({ type: 'output', sessionId, data: { text: content, complete: true } })
+        }
+        const usage = message.usage
+        if (usage) {
+          // Cache writes are counted as input, and reported again to be priced as writes
+          ctx.onUsage({
+            inputTokens: usage.input + usage.cacheWrite,
+            outputTokens: usage.output,
+            cachedTokens: usage.cacheRead,
+            cacheWriteTokens: usage.cacheWrite,
+          })
+        }
+      }
+      break
+    }
+    case 'tool_execution_start':
+      ctx.onEvent({
+        type: 'tool.start',
+        sessionId,
+        data: {
+          toolName: event.toolName || 'unknown',
+          toolCallId: event.toolCallId || '',
+          args: event.args,
+        },
+      })
+      ctx.onOutput(`⚡ ${event.toolName}(${summarizeArgs(event.args)})`)
+      break
+    case 'tool_execution_end':
+      ctx.onEvent({
+        type: 'tool.end',
+        sessionId,
+        data: {
+          toolName: event.toolName || 'unknown',
+          toolCallId: event.toolCallId || '',
+          isError: event.isError,
+        },
+      })
+      break
+    case 'auto_retry_start':
+      ctx.onEvent({
+        type: 'retrying',
+        sessionId,
+        data: {
+          // The SDK counts retries; reef counts attempts including the first call
+          attempt: (event.attempt ?? 0) + 1,
+          maxAttempts: (event.maxAttempts ?? 0) + 1,
+          delayMs: event.delayMs ?? 0,
+          error: classifyError(new Error(event.errorMessage)),
+        },
+      })
+      break
+    case 'turn_start':
+      ctx.checkpoint('turn')
+      ctx.onEvent({ type: 'output', sessionId, data: { text: '--- turn ---', meta: true } })
+      break
+  }
+}
+
+export const anthropicProvider: AgentProvider = {
+  name: 'anthropic',
+  backend: 'sdk',
+  defaultModel: 'claude-sonnet-4-20250514',
+
+  isAvailable(): Promise<boolean> {
+    return sdkReady
+  },
+
+  async createSession(ctx: ProviderContext): Promise<ProviderSession> {
+    if (!(await sdkReady)) throw new Error('Pi SDK not available')
+
+    let sessionManager
+    if (ctx.sessionFile) {
+      if (!fs.existsSync(ctx.sessionFile)) {
+        throw new Error('no persisted conversation for this session')
+      }
+      sessionManager = PiSessionManager.open(ctx.sessionFile, SDK_SESSION_DIR)
+    } else {
+      // File-backed so the conversation can be resumed after a restart
+      sessionManager = PiSessionManager.create(ctx.workdir, SDK_SESSION_DIR)
+    }
+
+    const model = getModel('anthropic', ctx.model)
+    const { session } = (await createAgentSession({
+      cwd: ctx.workdir,
+      model,
+      sessionManager,
+    })) as { session: PiSession }
+    // The SDK ends a failed prompt with an error message instead of rejecting; keep the
+    // last one so prompt() can fail once retries are exhausted
+    let failure: string | undefined
+    const unsubscribe = session.subscribe((event) => {
+      if (event.type === 'message_end' && event.message?.role === 'assistant') {
+        failure = event.message.stopReason === 'error' ? event.message.errorMessage : undefined
+      }
+      handleSdkEvent(ctx, event)
+    })
+
+    return {
+      model: model.id,
+      sessionFile: sessionManager.getSessionFile(),
+      prompt: async (text) => {
+        failure = undefined
+        await session.prompt(text)
+        if (failure) throw new Error(failure)
+      },
+      followUp: (text) => session.followUp(text),
+      abort: () => {
+        session.abort().catch(() => {})
+      },
+      dispose: () => {
+        unsubscribe()
+        session.dispose()
+      },
+    }
+  },
+}
@@ -1,121 +1,118 @@
 /**
- * Google Generative AI provider — Gemini models with tool use
+ * Google Generative AI provider — Gemini models with tool use, streamed
+ *
+ * Gemini streams text in pieces but sends each function call whole, so only text needs
+ * assembling.
  */
-import { exec } from 'child_process'
-import { promisify } from 'util'
+import crypto from 'crypto'
+import type { GenerateContentResponseUsageMetadata, Part } from '@google/genai'
 import type { AgentProvider, ProviderContext } from './types.js'
-
-const execAsync = promisify(exec)
+import { createTextStream, createTurnSession } from './turn-session.js'
+import { geminiTools, runToolCall } from './tools.js'
+import { withRetry } from './retry.js'
 
 export const googleProvider: AgentProvider = {
   name: 'google',
+  backend: 'google',
+  defaultModel: 'gemini-2.5-flash',
 
-  async run(ctx: ProviderContext): Promise<void> {
-    const apiKey = process.env.GOOGLE_API_KEY || process.env.GEMINI_API_KEY
-    if (!apiKey) throw new Error('GOOGLE_API_KEY or GEMINI_API_KEY not set')
-
-    const genai = await import('@google/genai')
-    const { GoogleGenAI, Type } = genai
-    const ai = new GoogleGenAI({ apiKey })
-
-    const SHELL_TOOL = {
-      functionDeclarations: [
-        {
-          name: 'shell',
-          description: 'Execute a shell command and return stdout/stderr',
-          parameters: {
-            type: Type.OBJECT,
-            properties: {
-              command: { type: Type.STRING, description: 'Shell command to run' },
-            },
-            required: ['command'],
-          },
-        },
-      ],
-    }
+  async isAvailable() {
+    return !!(process.env.GOOGLE_API_KEY || process.env.GEMINI_API_KEY)
+  },
 
-    let turns = 0
-    const maxTurns = 10
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const contents: Array<any> = [{ role: 'user', parts: [{ text: ctx.task }] }]
+  async createSession(ctx: ProviderContext) {
+    return createTurnSession(ctx, runTurn)
+  },
+}
+
+async function runTurn(
+  ctx: ProviderContext,
+  prompt: string,
+  history: unknown[],
+  signal: AbortSignal
+): Promise<void> {
+  const apiKey = process.env.GOOGLE_API_KEY || process.env.GEMINI_API_KEY
+  if (!apiKey) throw new Error('GOOGLE_API_KEY or GEMINI_API_KEY not set')
+
+  const { GoogleGenAI } = await import('@google/genai')
+  const ai = new GoogleGenAI({ apiKey })
 
-    while (turns < maxTurns) {
-      if (ctx.signal.aborted) break
-      turns++
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const contents: Array<any> = [...history, { role: 'user', parts: [{ text: prompt }] }]
+  ctx.onHistory(contents)
 
-      const response = await ai.models.generateContent({
+  // The loop runs until the model stops calling tools; the session budget bounds it
+  while (!signal.aborted) {
+    ctx.checkpoint('turn')
+
+    const stream = await withRetry(ctx, signal, () =>
+      ai.models.generateContentStream({
         model: ctx.model,
         contents,
-        config: { tools: [SHELL_TOOL] },
+        config: { tools: geminiTools(), abortSignal: signal },
       })
-
-      const candidate = response.candidates?.[0]
-      if (!candidate?.content?.parts) break
-
-      contents.push({ role: 'model', parts: candidate.content.parts })
-
-      let hasToolCalls = false
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const toolResponseParts: any[] = []
-
-      for (const part of candidate.content.parts) {
-        if (part.text) {
-          ctx.onOutput(part.text)
-          ctx.onEvent({
-            type: 'output',
-            sessionId: ctx.sessionId,
-            data: { text: part.text },
-          })
-        }
-
-        if (part.functionCall) {
-          hasToolCalls = true
-          const fc = part.functionCall
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-          const args = (fc.args as any) || {}
-          ctx.onEvent({
-            type: 'tool.start',
-            sessionId: ctx.sessionId,
-            data: { toolName: fc.name || 'unknown', toolCallId: fc.name || 'unknown', args },
-          })
-          ctx.onOutput(`⚡ ${fc.name}(${args.command || ''})`)
-
-          let result: string
-          try {
-            const { stdout, stderr } = await execAsync(args.command, {
-              cwd: ctx.workdir,
-              timeout: 30000,
-            })
-            result = (stdout + stderr).slice(0, 4000)
-          } catch (err: unknown) {
-            const e = err as { message: string; stdout?: string; stderr?: string }
-            result = `Error: ${e.message}\n${(e.stdout || '') + (e.stderr || '')}`.slice(0, 4000)
-          }
-
-          ctx.onOutput(result)
-          ctx.onEvent({
-            type: 'tool.end',
-            sessionId: ctx.sessionId,
-            data: { toolName: fc.name || 'unknown', toolCallId: fc.name || 'unknown' },
-          })
-          ctx.onEvent({
-            type: 'output',
-            sessionId: ctx.sessionId,
-            data: { text: result },
-          })
-
-          toolResponseParts.push({
-            functionResponse: { name: fc.name, response: { result } },
-          })
-        }
+    )
+
+    const text = createTextStream(ctx)
+    const parts: Part[] = []
+    // Usage is cumulative; the last chunk carries the response's total
+    let usage: GenerateContentResponseUsageMetadata | undefined
+    for await (const chunk of stream) {
+      if (chunk.usageMetadata) usage = chunk.usageMetadata
+      for (const part of chunk.candidates?.[0]?.content?.parts ?? []) {
+        if (part.text) text.push(part.text)
+        const last = parts[parts.length - 1]
+        // Text arrives in small parts; merge them back so history holds one part per block
+        if (isPlainText(part) && last && isPlainText(last)) last.text += part.text ?? ''
+        else parts.push({ ...part })
       }
+    }
+    text.end()
+
+    const cached = usage?.cachedContentTokenCount ?? 0
+    ctx.onUsage({
+      inputTokens: (usage?.promptTokenCount ?? 0) - cached,
+      // Thinking tokens are billed as output
+      outputTokens: (usage?.candidatesTokenCount ?? 0) + (usage?.thoughtsTokenCount ?? 0),
+      cachedTokens: cached,
+    })
+
+    if (parts.length === 0) break
 
-      if (hasToolCalls && toolResponseParts.length > 0) {
-        contents.push({ role: 'user', parts: toolResponseParts })
-        continue
+    contents.push({ role: 'model', parts })
+
+    let hasToolCalls = false
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const toolResponseParts: any[] = []
+
+    for (const part of parts) {
+      // A response that used up the session budget ends it before its tool calls run
+      if (part.functionCall && !signal.aborted) {
+        hasToolCalls = true
+        const fc = part.functionCall
+        const name = fc.name || 'unknown'
+        // Gemini often leaves ids out; approvals and tool events need one unique per session
+        const id = fc.id || crypto.randomUUID()
+        const result = await runToolCall(ctx, { id, name, args: fc.args || {} })
+
+        toolResponseParts.push({
+          functionResponse: { id, name: fc.name, response: { result } },
+        })
       }
+    }
 
-      break
+    if (signal.aborted) break
+    if (hasToolCalls && toolResponseParts.length > 0) {
+      contents.push({ role: 'user', parts: toolResponseParts })
+      ctx.onHistory(contents)
+      continue
     }
-  },
+
+    ctx.onHistory(contents)
+    break
+  }
+}
+
+function isPlainText(part: Part): boolean {
+  return part.text !== undefined && !part.thought && !part.thoughtSignature
 }
@@ -1,21 +1,34 @@
 /**
  * Provider registry — maps provider names to AgentProvider implementations
+ *
+ * The built-ins are registered here; plugins add more at startup (see loader.ts).
  */
 import type { Provider } from '../shared-types.js'
 import type { AgentProvider } from './types.js'
+import { anthropicProvider } from './anthropic.js'
 import { openaiProvider } from './openai.js'
 import { googleProvider } from './google.js'
+import { mockProvider } from './mock.js'
 
-export type { AgentProvider, ProviderContext } from './types.js'
+export type { AgentProvider, ProviderContext, ProviderSession } from './types.js'
 
 const registry = new Map<Provider, AgentProvider>()
 
+registry.set('anthropic', anthropicProvider)
 registry.set('openai', openaiProvider)
 registry.set('google', googleProvider)
-// NOTE: Anthropic uses the Pi SDK which has a fundamentally different session model
-// (createAgentSession + subscribe/prompt). It's handled as a special case in SessionManager
-// because it can't conform to the simple run(ctx) interface without losing features
-// (streaming events, abort via session.agent.abort(), etc.)
+registry.set('mock', mockProvider)
+
+/** Add a provider. Throws if the name is taken or the backend is reserved. */
+export function registerProvider(provider: AgentProvider): void {
+  if (registry.has(provider.name)) {
+    throw new Error(`provider already registered: ${provider.name}`)
+  }
+  if (provider.backend === 'tmux' || provider.backend === 'sdk') {
+    throw new Error(`backend "${provider.backend}" is reserved`)
+  }
+  registry.set(provider.name, provider)
+}
 
 export function getProvider(name: Provider): AgentProvider | undefined {
   return registry.get(name)
@@ -28,3 +41,12 @@ export function hasProvider(name: Provider): boolean {
 export function listProviders(): Provider[] {
   return [...registry.keys()]
 }
+
+/** Whether each registered provider can currently run sessions */
+export async function getProviderStatus(): Promise<Record<string, boolean>> {
+  const status: Record<string, boolean> = {}
+  for (const [name, provider] of registry) {
+    status[name] = provider.isAvailable ? await provider.isAvailable().catch(() => false) : true
+  }
+  return status
+}
@@ -0,0 +1,139 @@
+/**
+ * Provider plugins — registers additional AgentProviders at startup
+ *
+ * Two sources, both optional:
+ * - A config file (REEF_PROVIDERS_CONFIG, default $REEF_DATA_DIR/providers.json) listing
+ *   modules: `{ "providers": [{ "module": "./my-agent.js", "options": { ... } }] }`.
+ *   Relative paths resolve against the config file; bare names are imported as packages.
+ *   Entries with `"type": "openai-compatible"` instead define a named OpenAI-compatible
+ *   endpoint (see OpenAIEndpoint) without any plugin code.
+ * - A plugins directory (REEF_PLUGINS_DIR, default $REEF_DATA_DIR/plugins): every .js or
+ *   .mjs file in it is loaded without options.
+ *
+ * A plugin module's default export is an AgentProvider, or a factory that takes the
+ * entry's options and returns one. Plugins that fail to load are logged and skipped.
+ */
+import fs from 'fs'
+import path from 'path'
+import { pathToFileURL } from 'url'
+import type { Provider } from '../shared-types.js'
+import type { AgentProvider } from './types.js'
+import { registerProvider } from './index.js'
+import { createOpenAIProvider, type OpenAIEndpoint } from './openai.js'
+
+const DATA_DIR = process.env.REEF_DATA_DIR || path.join(process.cwd(), 'data')
+const PLUGIN_EXTENSIONS = ['.js', '.mjs']
+
+export interface ProviderPluginEntry {
+  /** Module path (relative to the config file) or package name */
+  module: string
+  /** Passed to the module's factory export */
+  options?: Record<string, unknown>
+}
+
+/** A named OpenAI-compatible endpoint, e.g. a local vLLM or Ollama server */
+export interface OpenAICompatibleEntry extends Omit<OpenAIEndpoint, 'requireKey'> {
+  type: 'openai-compatible'
+  baseURL: string
+}
+
+export interface ProvidersConfig {
+  providers: Array<ProviderPluginEntry | OpenAICompatibleEntry>
+}
+
+interface PluginSource {
+  label: string
+  load: () => Promise<unknown>
+}
+
+function isAgentProvider(value: unknown): value is AgentProvider {
+  const provider = value as AgentProvider
+  return (
+    !!provider &&
+    typeof provider.name === 'string' &&
+    provider.name !== '' &&
+    typeof provider.backend === 'string' &&
+    typeof provider.defaultModel === 'string' &&
+    typeof provider.createSession === 'function'
+  )
+}
+
+function readConfig(configPath: string): PluginSource[] {
+  if (!fs.existsSync(configPath)) return []
+  const config = JSON.parse(fs.readFileSync(configPath, 'utf8')) as ProvidersConfig
+  if (!Array.isArray(config.providers)) throw new Error('"providers" must be an array')
+
+  const baseDir = path.dirname(path.resolve(configPath))
+  return config.providers.map((entry) => {
+    if ('type' in entry && entry.type === 'openai-compatible') return openAICompatibleSource(entry)
+    if (typeof (entry as ProviderPluginEntry)?.module !== 'string') {
+      throw new Error('every entry needs a "module" or "type"')
+    }
+    const { module, options = {} } = entry as ProviderPluginEntry
+    const local = module.startsWith('.') || path.isAbsolute(module)
+    const specifier = local ? pathToFileURL(path.resolve(baseDir, module)).href : module
+    return { label: module, load: () => importPlugin(specifier, options) }
+  })
+}
+
+function openAICompatibleSource(entry: OpenAICompatibleEntry): PluginSource {
+  return {
+    label: `openai-compatible ${entry.name}`,
+    load: async () => {
+      for (const field of ['name', 'baseURL', 'defaultModel'] as const) {
+        if (typeof entry[field] !== 'string' || !entry[field]) {
+          throw new Error(`"${field}" is required`)
+        }
+      }
+      return createOpenAIProvider({ ...entry, requireKey: !!entry.apiKeyEnv })
+    },
+  }
+}
+
+function readPluginsDir(pluginsDir: string): PluginSource[] {
+  if (!fs.existsSync(pluginsDir)) return []
+  return fs
+    .readdirSync(pluginsDir)
+    .filter((file) => PLUGIN_EXTENSIONS.includes(path.extname(file)))
+    .sort()
+    .map((file) => {
+      const filePath = path.resolve(pluginsDir, file)
+      return { label: filePath, load: () => importPlugin(pathToFileURL(filePath).href, {}) }
+    })
+}
+
+async function importPlugin(specifier: string, options: Record<string, unknown>): Promise<unknown> {
+  const mod = await import(specifier)
+  const exported = mod.default ?? mod.provider
+  return typeof exported === 'function' ? exported(options) : exported
+}
+
+/**
+ * Load and register provider plugins. Call once at startup, before sessions are
+ * recovered. Returns the names that were registered.
+ */
+export async function loadProviderPlugins(): Promise<Provider[]> {
+  const configPath = process.env.REEF_PROVIDERS_CONFIG || path.join(DATA_DIR, 'providers.json')
+  const pluginsDir = process.env.REEF_PLUGINS_DIR || path.join(DATA_DIR, 'plugins')
+
+  const sources: PluginSource[] = []
+  try {
+    sources.push(...readConfig(configPath))
+  } catch (err) {
+    console.warn(`⚠️  Ignoring ${configPath}:`, (err as Error).message)
+  }
+  sources.push(...readPluginsDir(pluginsDir))
+
+  const registered: Provider[] = []
+  for (const source of sources) {
+    try {
+      const provider = await source.load()
+      if (!isAgentProvider(provider)) throw new Error('module does not export an AgentProvider')
+      registerProvider(provider)
+      registered.push(provider.name)
+    } catch (err) {
+      console.warn(`⚠️  Provider plugin ${source.label} not loaded:`, (err as Error).message)
+    }
+  }
+  return registered
+}
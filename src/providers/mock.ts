@@ -0,0 +1,170 @@
+/**
+ * Mock provider — replays a scripted conversation, for tests and demos
+ *
+ * No model is called and no tools run. The script comes from the spawn request's
+ * providerOptions, inline (`{ "script": ... }`) or as a fixture name (`{ "fixture": "demo" }`).
+ * Fixtures are JSON files in the REEF_MOCK_FIXTURES directory (default
+ * $REEF_DATA_DIR/fixtures); "demo" reads demo.json there. Each prompt plays the next turn;
+ * prompts past the end of the script go idle without output.
+ */
+import fs from 'fs'
+import path from 'path'
+import type { AgentProvider, ProviderContext } from './types.js'
+import { createTurnSession } from './turn-session.js'
+
+const DATA_DIR = process.env.REEF_DATA_DIR || path.join(process.cwd(), 'data')
+const FIXTURES_DIR = process.env.REEF_MOCK_FIXTURES || path.join(DATA_DIR, 'fixtures')
+
+export type MockStep =
+  | { type: 'text'; text: string; delayMs?: number }
+  | {
+      type: 'tool'
+      name: string
+      args?: unknown
+      result?: string
+      isError?: boolean
+      delayMs?: number
+    }
+  | { type: 'error'; message: string; delayMs?: number }
+  | {
+      type: 'usage'
+      inputTokens: number
+      outputTokens: number
+      cachedTokens?: number
+      delayMs?: number
+    }
+
+/** Steps per turn; a bare list of steps is a single turn */
+export type MockScript = { turns: MockStep[][] } | MockStep[]
+
+function isStep(value: unknown): value is MockStep {
+  const step = value as MockStep
+  if (!step || typeof step !== 'object') return false
+  if (step.delayMs !== undefined && typeof step.delayMs !== 'number') return false
+  switch (step.type) {
+    case 'text':
+      return typeof step.text === 'string'
+    case 'tool':
+      return typeof step.name === 'string'
+    case 'error':
+      return typeof step.message === 'string'
+    case 'usage':
+      return (
+        typeof step.inputTokens === 'number' &&
+        typeof step.outputTokens === 'number' &&
+        (step.cachedTokens === undefined || typeof step.cachedTokens === 'number')
+      )
+    default:
+      return false
+  }
+}
+
+function toTurns(script: unknown): MockStep[][] {
+  const turns = Array.isArray(script) ? [script] : (script as { turns?: unknown })?.turns
+  if (!Array.isArray(turns) || !turns.every((t) => Array.isArray(t) && t.every(isStep))) {
+    throw new Error('invalid mock script')
+  }
+  return turns as MockStep[][]
+}
+
+/** Resolve the script from providerOptions. Throws with a client-facing message. */
+function loadTurns(options: Record<string, unknown>): MockStep[][] {
+  if (options.script !== undefined) return toTurns(options.script)
+
+  const fixture = options.fixture
+  if (typeof fixture !== 'string' || !/^[\w.-]+$/.test(fixture)) {
+    throw new Error('providerOptions needs a "script" or a "fixture" name')
+  }
+  const file = path.join(FIXTURES_DIR, fixture.endsWith('.json') ? fixture : `${fixture}.json`)
+  if (!fs.existsSync(file)) throw new Error(`mock fixture not found: ${fixture}`)
+  try {
+    return toTurns(JSON.parse(fs.readFileSync(file, 'utf8')))
+  } catch {
+    throw new Error(`invalid mock fixture: ${fixture}`)
+  }
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms)
+    signal.addEventListener('abort', done, { once: true })
+    function done() {
+      clearTimeout(timer)
+      signal.removeEventListener('abort', done)
+      resolve()
+    }
+  })
+}
+
+async function playStep(
+  ctx: ProviderContext,
+  step: MockStep,
+  toolCallId: string,
+  signal: AbortSignal
+): Promise<void> {
+  if (step.delayMs) await sleep(step.delayMs, signal)
+  if (signal.aborted) return
+  const { sessionId } = ctx
+
+  switch (step.type) {
+    case 'text':
+      ctx.onOutput(step.text)
+      ctx.onEvent({ type: 'output', sessionId, data: { text: step.text } })
+      break
+    case 'tool': {
+      const result = step.result ?? ''
+      ctx.onEvent({
+        type: 'tool.start',
+        sessionId,
+        data: { toolName: step.name, toolCallId, args: step.args },
+      })
+      ctx.onOutput(`⚡ ${step.name}(${step.args === undefined ? '' : JSON.stringify(step.args)})`)
+      ctx.onOutput(result)
+      ctx.onEvent({
+        type: 'tool.end',
+        sessionId,
+        data: { toolName: step.name, toolCallId, isError: step.isError },
+      })
+      ctx.onEvent({ type: 'output', sessionId, data: { text: result } })
+      break
+    }
+    case 'error':
+      throw new Error(step.message)
+    case 'usage':
+      ctx.onUsage({
+        inputTokens: step.inputTokens,
+        outputTokens: step.outputTokens,
+        cachedTokens: step.cachedTokens ?? 0,
+      })
+      break
+  }
+}
+
+export const mockProvider: AgentProvider = {
+  name: 'mock',
+  backend: 'mock',
+  defaultModel: 'mock',
+
+  validateOptions(options) {
+    try {
+      loadTurns(options)
+      return undefined
+    } catch (err) {
+      return (err as Error).message
+    }
+  },
+
+  async createSession(ctx: ProviderContext) {
+    const turns = loadTurns(ctx.options)
+    // History records the prompts played so far, so a resumed session picks up at the next turn
+    return createTurnSession(ctx, async (turnCtx, prompt, history, signal) => {
+      const turn = history.length
+      const steps = turns[turn] ?? []
+      for (const [i, step] of steps.entries()) {
+        await playStep(turnCtx, step, `mock_${turn}_${i}`, signal)
+        if (signal.aborted) return
+      }
+      turnCtx.onHistory([...history, prompt])
+    })
+  },
+}
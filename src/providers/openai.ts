@@ -1,124 +1,181 @@
 /**
- * OpenAI provider — chat completions with tool use
+ * OpenAI provider — streamed chat completions with tool use
+ *
+ * The same implementation serves OpenAI-compatible servers (vLLM, Ollama, LM Studio):
+ * createOpenAIProvider() builds a named provider for a base URL, optional key and headers.
  */
-import { exec } from 'child_process'
-import { promisify } from 'util'
+import type { CompletionUsage } from 'openai/resources/completions'
+import type { Provider } from '../shared-types.js'
 import type { AgentProvider, ProviderContext } from './types.js'
+import { createTextStream, createTurnSession } from './turn-session.js'
+import { openAITools, parseToolArgs, runToolCall } from './tools.js'
+import { withRetry } from './retry.js'
+
+/** Connection settings for an OpenAI or OpenAI-compatible endpoint */
+export interface OpenAIEndpoint {
+  /** Provider name, selected with `provider` in spawn requests */
+  name: Provider
+  /** API base URL, e.g. http://localhost:11434/v1 (default: OPENAI_BASE_URL or the OpenAI API) */
+  baseURL?: string
+  /** API key; omit for servers that don't check one */
+  apiKey?: string
+  /** Environment variable holding the API key, instead of apiKey */
+  apiKeyEnv?: string
+  /** Fail sessions up front when no key is configured */
+  requireKey?: boolean
+  defaultModel: string
+  /** Extra headers sent with every request */
+  headers?: Record<string, string>
+}
 
-const execAsync = promisify(exec)
-
-const TOOL_DEFS = [
-  {
-    type: 'function' as const,
-    function: {
-      name: 'shell',
-      description: 'Execute a shell command and return stdout/stderr',
-      parameters: {
-        type: 'object',
-        properties: {
-          command: { type: 'string', description: 'Shell command to run' },
-        },
-        required: ['command'],
-      },
+/** A tool call assembled from streamed fragments */
+interface StreamedToolCall {
+  id: string
+  name: string
+  arguments: string
+}
+
+function resolveKey(endpoint: OpenAIEndpoint): string | undefined {
+  return endpoint.apiKey || (endpoint.apiKeyEnv ? process.env[endpoint.apiKeyEnv] : undefined)
+}
+
+/** Build a provider for an OpenAI-compatible endpoint */
+export function createOpenAIProvider(endpoint: OpenAIEndpoint): AgentProvider {
+  return {
+    name: endpoint.name,
+    backend: endpoint.name,
+    defaultModel: endpoint.defaultModel,
+
+    async isAvailable() {
+      return !endpoint.requireKey || !!resolveKey(endpoint)
     },
-  },
-]
 
-export const openaiProvider: AgentProvider = {
-  name: 'openai',
+    async createSession(ctx: ProviderContext) {
+      return createTurnSession(ctx, (turnCtx, prompt, history, signal) =>
+        runTurn(endpoint, turnCtx, prompt, history, signal)
+      )
+    },
+  }
+}
 
-  async run(ctx: ProviderContext): Promise<void> {
-    const apiKey = process.env.OPENAI_API_KEY
-    if (!apiKey) throw new Error('OPENAI_API_KEY not set')
-
-    const { default: OpenAI } = await import('openai')
-    const client = new OpenAI({ apiKey })
-
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const messages: Array<any> = [
-      {
-        role: 'system',
-        content:
-          'You are a helpful assistant. You can execute shell commands using the shell tool.',
-      },
-      { role: 'user', content: ctx.task },
-    ]
-
-    let turns = 0
-    const maxTurns = 10
-
-    while (turns < maxTurns) {
-      if (ctx.signal.aborted) break
-      turns++
-
-      const response = await client.chat.completions.create({
-        model: ctx.model,
-        messages,
-        tools: TOOL_DEFS,
-      })
-
-      const choice = response.choices[0]
-      if (!choice?.message) break
-
-      const msg = choice.message
-      messages.push(msg)
-
-      if (msg.content) {
-        ctx.onOutput(msg.content)
-        ctx.onEvent({
-          type: 'output',
-          sessionId: ctx.sessionId,
-          data: { text: msg.content },
-        })
+export const openaiProvider = createOpenAIProvider({
+  name: 'openai',
+  apiKeyEnv: 'OPENAI_API_KEY',
+  requireKey: true,
+  defaultModel: 'gpt-4o',
+})
+
+async function runTurn(
+  endpoint: OpenAIEndpoint,
+  ctx: ProviderContext,
+  prompt: string,
+  history: unknown[],
+  signal: AbortSignal
+): Promise<void> {
+  const apiKey = resolveKey(endpoint)
+  if (!apiKey && endpoint.requireKey) throw new Error(`${endpoint.apiKeyEnv || 'API key'} not set`)
+
+  const { default: OpenAI } = await import('openai')
+  // Pass the key explicitly so OPENAI_API_KEY is never sent to a third-party server;
+  // keyless endpoints get no Authorization header at all
+  const client = new OpenAI({
+    apiKey: apiKey || 'unused',
+    baseURL: endpoint.baseURL,
+    defaultHeaders: { ...endpoint.headers, ...(apiKey ? {} : { Authorization: null }) },
+    // withRetry() retries instead, so every retry is reported
+    maxRetries: 0,
+  })
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const messages: Array<any> =
+    history.length > 0
+      ? [...history]
+      : [
+          {
+            role: 'system',
+            content:
+              'You are a coding assistant working in a project directory. Use the tools to ' +
+              'inspect and change files and to run shell commands.',
+          },
+        ]
+  messages.push({ role: 'user', content: prompt })
+  ctx.onHistory(messages)
+
+  // The loop runs until the model stops calling tools; the session budget bounds it
+  while (!signal.aborted) {
+    ctx.checkpoint('turn')
+    const stream = await withRetry(ctx, signal, () =>
+      client.chat.completions.create(
+        {
+          model: ctx.model,
+          messages,
+          tools: openAITools(),
+          stream: true,
+          stream_options: { include_usage: true },
+        },
+        { signal }
+      )
+    )
+
+    const text = createTextStream(ctx)
+    // Tool calls arrive in fragments keyed by index; the arguments string is split across chunks
+    const toolCalls: StreamedToolCall[] = []
+    let usage: CompletionUsage | undefined
+    for await (const chunk of stream) {
+      if (chunk.usage) usage = chunk.usage
+      const delta = chunk.choices[0]?.delta
+      if (!delta) continue
+      if (delta.content) text.push(delta.content)
+      for (const fragment of delta.tool_calls ?? []) {
+        const call = (toolCalls[fragment.index] ??= { id: '', name: '', arguments: '' })
+        if (fragment.id) call.id = fragment.id
+        if (fragment.function?.name) call.name += fragment.function.name
+        if (fragment.function?.arguments) call.arguments += fragment.function.arguments
       }
+    }
+    const content = text.end()
+    const calls = toolCalls.filter((call) => call.name)
+    messages.push({
+      role: 'assistant',
+      content: content || null,
+      ...(calls.length > 0 && {
+        tool_calls: calls.map((call) => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.name, arguments: call.arguments },
+        })),
+      }),
+    })
+
+    // Servers that omit usage still report the response, so it counts as a turn
+    const cached = usage?.prompt_tokens_details?.cached_tokens ?? 0
+    ctx.onUsage({
+      inputTokens: (usage?.prompt_tokens ?? 0) - cached,
+      outputTokens: usage?.completion_tokens ?? 0,
+      cachedTokens: cached,
+    })
+    // A response that used up the session budget ends it before its tool calls run
+    if (signal.aborted) break
+
+    if (calls.length > 0) {
+      for (const call of calls) {
+        const result = await runToolCall(ctx, {
+          id: call.id,
+          name: call.name,
+          args: parseToolArgs(call.arguments),
+        })
 
-      if (msg.tool_calls && msg.tool_calls.length > 0) {
-        for (const tc of msg.tool_calls) {
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-          const fn = (tc as any).function
-          if (!fn) continue
-          const args = JSON.parse(fn.arguments || '{}')
-          ctx.onEvent({
-            type: 'tool.start',
-            sessionId: ctx.sessionId,
-            data: { toolName: fn.name, toolCallId: tc.id, args },
-          })
-          ctx.onOutput(`⚡ ${fn.name}(${args.command || ''})`)
-
-          let result: string
-          try {
-            const { stdout, stderr } = await execAsync(args.command, {
-              cwd: ctx.workdir,
-              timeout: 30000,
-            })
-            result = (stdout + stderr).slice(0, 4000)
-          } catch (err: unknown) {
-            const e = err as { message: string; stdout?: string; stderr?: string }
-            result = `Error: ${e.message}\n${(e.stdout || '') + (e.stderr || '')}`.slice(0, 4000)
-          }
-
-          ctx.onOutput(result)
-          ctx.onEvent({
-            type: 'tool.end',
-            sessionId: ctx.sessionId,
-            data: { toolName: fn.name, toolCallId: tc.id },
-          })
-          ctx.onEvent({
-            type: 'output',
-            sessionId: ctx.sessionId,
-            data: { text: result },
-          })
-
-          messages.push({
-            role: 'tool' as const,
-            tool_call_id: tc.id,
-            content: result,
-          })
-        }
-        continue
+        messages.push({
+          role: 'tool' as const,
+          tool_call_id: call.id,
+          content: result,
+        })
       }
-
-      break
+      ctx.onHistory(messages)
+      continue
     }
-  },
+
+    ctx.onHistory(messages)
+    break
+  }
 }
@@ -0,0 +1,161 @@
+/**
+ * Retries for provider API calls, and classification of the errors they fail with
+ *
+ * Transient failures (rate limits, overloaded or failing servers, network errors) are
+ * retried with exponential backoff, honoring the server's retry-after hint. Each retry
+ * emits a `retrying` event. Errors that end a session are classified into a SessionError
+ * for the `status` event and the session row.
+ *
+ *   REEF_RETRY_MAX_ATTEMPTS   attempts per call, including the first (default 4)
+ *   REEF_RETRY_BASE_DELAY_MS  first backoff, doubled on each retry (default 1000)
+ *   REEF_RETRY_MAX_DELAY_MS   longest wait, also caps retry-after (default 60000)
+ */
+import type { ErrorKind, SessionError } from '../shared-types.js'
+import type { ProviderContext } from './types.js'
+
+/** An integer setting of at least `min`; anything else, including garbage, is the fallback */
+function envInt(name: string, fallback: number, min: number): number {
+  const value = Number(process.env[name] || fallback)
+  return Number.isInteger(value) && value >= min ? value : fallback
+}
+
+const MAX_ATTEMPTS = envInt('REEF_RETRY_MAX_ATTEMPTS', 4, 1)
+const BASE_DELAY_MS = envInt('REEF_RETRY_BASE_DELAY_MS', 1000, 0)
+const MAX_DELAY_MS = envInt('REEF_RETRY_MAX_DELAY_MS', 60000, 0)
+
+const RETRYABLE: ErrorKind[] = ['rate_limit', 'server', 'network']
+
+const CONTEXT_OVERFLOW =
+  /context.?length|context.?window|maximum context|prompt is too long|too many tokens|input token count/i
+const INVALID_MODEL =
+  /model.{0,60}(not found|does not exist|not supported)|unknown model|invalid model/i
+const RATE_LIMIT = /rate.?limit|too many requests|resource.?exhausted/i
+const NETWORK = /fetch failed|connection error|socket hang up|network/i
+
+const NETWORK_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'EPIPE',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_HEADERS_TIMEOUT',
+])
+
+/** Fields the provider SDKs put on their errors */
+interface ApiErrorLike {
+  name?: string
+  message?: string
+  status?: number
+  code?: string | null
+  headers?: Headers | Record<string, string>
+  cause?: { code?: string }
+}
+
+function statusOf(err: ApiErrorLike): number | undefined {
+  if (typeof err.status === 'number') return err.status
+  // The Pi SDK and some proxies only put the status in the message, e.g. "429 {...}"
+  const match = err.message?.match(/^(?:Error: )?(\d{3})\b/)
+  return match ? parseInt(match[1], 10) : undefined
+}
+
+function kindOf(err: ApiErrorLike, status: number | undefined): ErrorKind {
+  const message = err.message ?? ''
+  const code = err.code ?? err.cause?.code ?? ''
+  if (CONTEXT_OVERFLOW.test(message)) return 'context_overflow'
+  if (status === 401 || status === 403 || /api.?key|unauthorized/i.test(message)) {
+    return 'auth'
+  }
+  if (INVALID_MODEL.test(message) || status === 404) return 'invalid_model'
+  if (status === 429 || RATE_LIMIT.test(message)) return 'rate_limit'
+  if (status === 408 || (status !== undefined && status >= 500) || /overloaded/i.test(message)) {
+    return 'server'
+  }
+  if (
+    NETWORK_CODES.has(code) ||
+    err.name === 'APIConnectionError' ||
+    err.name === 'APIConnectionTimeoutError' ||
+    NETWORK.test(message)
+  ) {
+    return 'network'
+  }
+  return 'unknown'
+}
+
+/** Classify an error thrown by a provider call */
+export function classifyError(err: unknown): SessionError {
+  const apiErr = (err ?? {}) as ApiErrorLike
+  const message = apiErr.message || String(err)
+  const status = statusOf(apiErr)
+  const kind = kindOf(apiErr, status)
+  // A 429 for an exhausted quota won't clear up by waiting
+  const quota = apiErr.code === 'insufficient_quota' || /exceeded your current quota/i.test(message)
+  return { kind, message, status, retryable: RETRYABLE.includes(kind) && !quota }
+}
+
+/** The server's requested wait in ms, from retry-after headers or a Gemini RetryInfo detail */
+function retryAfterMs(err: unknown): number | undefined {
+  const { headers, message } = (err ?? {}) as ApiErrorLike
+  const header = (name: string) =>
+    headers instanceof Headers ? headers.get(name) : (headers?.[name] ?? null)
+
+  const ms = parseFloat(header('retry-after-ms') ?? '')
+  if (!Number.isNaN(ms)) return ms
+  const after = header('retry-after')
+  if (after) {
+    const seconds = parseFloat(after)
+    if (!Number.isNaN(seconds)) return seconds * 1000
+    const date = Date.parse(after)
+    if (!Number.isNaN(date)) return Math.max(0, date - Date.now())
+  }
+  const delay = message?.match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/)
+  return delay ? parseFloat(delay[1]) * 1000 : undefined
+}
+
+function backoffMs(attempt: number, err: unknown): number {
+  const delay = retryAfterMs(err) ?? BASE_DELAY_MS * 2 ** (attempt - 1)
+  return Math.min(delay, MAX_DELAY_MS)
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms)
+    signal.addEventListener('abort', done, { once: true })
+    function done() {
+      clearTimeout(timer)
+      signal.removeEventListener('abort', done)
+      resolve()
+    }
+  })
+}
+
+/**
+ * Make a provider API call, retrying transient failures. Wrap only the request itself:
+ * a call that already streamed output isn't retried. Throws the last error once the
+ * attempts run out, the error isn't retryable, or the turn is aborted.
+ */
+export async function withRetry<T>(
+  ctx: ProviderContext,
+  signal: AbortSignal,
+  call: () => Promise<T>
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await call()
+    } catch (err) {
+      const error = classifyError(err)
+      if (signal.aborted || !error.retryable || attempt >= MAX_ATTEMPTS) throw err
+
+      const delayMs = backoffMs(attempt, err)
+      ctx.onEvent({
+        type: 'retrying',
+        sessionId: ctx.sessionId,
+        data: { attempt: attempt + 1, maxAttempts: MAX_ATTEMPTS, delayMs, error },
+      })
+      await sleep(delayMs, signal)
+      if (signal.aborted) throw err
+    }
+  }
+}
@@ -0,0 +1,416 @@
+/**
+ * Shared tool library for registry providers (OpenAI, Google, OpenAI-compatible)
+ *
+ * Tools are defined once with a JSON-schema parameter list and adapted to each provider's
+ * function-calling format. runToolCall() executes a call and reports it the same way for
+ * every provider: tool.start, a summary line, the result, tool.end.
+ *
+ * Calls are checked against the session's policy (see policy.ts) before they run: paths
+ * must stay inside the workdir and shell commands must pass the allow/deny patterns.
+ * Refused calls emit tool.denied instead and the model is told why. Calls matching the
+ * session's approval rules (see approvals.ts) wait for a client's decision first.
+ */
+import { exec, spawn } from 'child_process'
+import fs from 'fs/promises'
+import path from 'path'
+import { promisify } from 'util'
+import type { Tool as GeminiTool } from '@google/genai'
+import type { ProviderContext } from './types.js'
+import { checkCommand, resolveInside, type EffectivePolicy } from '../policy.js'
+import type { CompiledApprovalRules } from '../approvals.js'
+
+const execAsync = promisify(exec)
+
+const DEFAULT_READ_LINES = 500
+const MAX_LIST_ENTRIES = 500
+const MAX_SEARCH_MATCHES = 200
+const SKIP_DIRS = new Set(['.git', 'node_modules'])
+
+interface ToolParameter {
+  type: 'string' | 'integer'
+  description: string
+}
+
+/** What a tool runs with: the session's workdir and effective policy */
+export interface ToolEnv {
+  workdir: string
+  policy: EffectivePolicy
+}
+
+export interface ToolDefinition {
+  name: string
+  description: string
+  parameters: Record<string, ToolParameter>
+  required: string[]
+  /** Check a call against the policy; returns the reason if it must not run */
+  authorize?(args: Record<string, unknown>, env: ToolEnv): string | undefined
+  /** Files the call would write, relative to the workdir */
+  writes?(args: Record<string, unknown>): string[]
+  run(args: Record<string, unknown>, env: ToolEnv): Promise<string>
+}
+
+export interface ToolCall {
+  id: string
+  name: string
+  args: Record<string, unknown>
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max)}\n… (truncated)` : text
+}
+
+function stringArg(args: Record<string, unknown>, name: string): string {
+  const value = args[name]
+  if (typeof value !== 'string' || value === '') throw new Error(`"${name}" is required`)
+  return value
+}
+
+function intArg(args: Record<string, unknown>, name: string, fallback: number): number {
+  const value = Number(args[name])
+  return Number.isInteger(value) && value > 0 ? value : fallback
+}
+
+/** Resolve a tool path against the session's working directory */
+function resolvePath(workdir: string, target: unknown): string {
+  return path.resolve(workdir, typeof target === 'string' && target ? target : '.')
+}
+
+/** authorize() for tools taking a `path` argument: it must stay inside the workdir */
+function authorizePath(args: Record<string, unknown>, { workdir }: ToolEnv): string | undefined {
+  const target = typeof args.path === 'string' && args.path ? args.path : '.'
+  return resolveInside(workdir, target) ? undefined : `path is outside the workdir: ${target}`
+}
+
+function authorizeShell(args: Record<string, unknown>, { policy }: ToolEnv): string | undefined {
+  return typeof args.command === 'string' ? checkCommand(policy, args.command) : undefined
+}
+
+/** Files named in a unified diff's ---/+++ headers */
+function patchTargets(args: Record<string, unknown>): string[] {
+  const patch = typeof args.patch === 'string' ? args.patch : ''
+  return [...patch.matchAll(/^(?:---|\+\+\+) (\S+)/gm)]
+    .map((match) => match[1].replace(/^[ab]\//, ''))
+    .filter((target) => target !== '/dev/null')
+}
+
+/** Every file a unified diff touches must stay inside the workdir */
+function authorizePatch(args: Record<string, unknown>, { workdir }: ToolEnv): string | undefined {
+  const outside = patchTargets(args).find((target) => !resolveInside(workdir, target))
+  return outside ? `patch touches a file outside the workdir: ${outside}` : undefined
+}
+
+async function runShell(
+  args: Record<string, unknown>,
+  { workdir, policy }: ToolEnv
+): Promise<string> {
+  try {
+    const { stdout, stderr } = await execAsync(stringArg(args, 'command'), {
+      cwd: workdir,
+      env: policy.env,
+      timeout: policy.timeoutMs,
+    })
+    return stdout + stderr
+  } catch (err: unknown) {
+    const e = err as { message: string; stdout?: string; stderr?: string }
+    return `Error: ${e.message}\n${(e.stdout || '') + (e.stderr || '')}`
+  }
+}
+
+async function readFile(args: Record<string, unknown>, { workdir }: ToolEnv): Promise<string> {
+  const file = resolvePath(workdir, stringArg(args, 'path'))
+  const content = await fs.readFile(file, 'utf8')
+  const lines = (content.endsWith('\n') ? content.slice(0, -1) : content).split('\n')
+  const offset = intArg(args, 'offset', 1)
+  const limit = intArg(args, 'limit', DEFAULT_READ_LINES)
+  const slice = lines.slice(offset - 1, offset - 1 + limit)
+  const numbered = slice.map((line, i) => `${offset + i}\t${line}`).join('\n')
+  const remaining = lines.length - (offset - 1 + slice.length)
+  return numbered + (remaining > 0 ? `\n… ${remaining} more lines` : '')
+}
+
+async function writeFile(args: Record<string, unknown>, { workdir }: ToolEnv): Promise<string> {
+  const file = resolvePath(workdir, stringArg(args, 'path'))
+  const content = typeof args.content === 'string' ? args.content : ''
+  await fs.mkdir(path.dirname(file), { recursive: true })
+  await fs.writeFile(file, content)
+  return `Wrote ${Buffer.byteLength(content)} bytes to ${path.relative(workdir, file) || file}`
+}
+
+async function listDirectory(args: Record<string, unknown>, { workdir }: ToolEnv): Promise<string> {
+  const dir = resolvePath(workdir, args.path)
+  const entries = await fs.readdir(dir, { withFileTypes: true })
+  const names = entries
+    .map((e) => (e.isDirectory() ? `${e.name}/` : e.name))
+    .sort()
+    .slice(0, MAX_LIST_ENTRIES)
+  const more = entries.length - names.length
+  return names.join('\n') + (more > 0 ? `\n… ${more} more entries` : '') || '(empty)'
+}
+
+async function search(args: Record<string, unknown>, { workdir }: ToolEnv): Promise<string> {
+  let pattern: RegExp
+  try {
+    pattern = new RegExp(stringArg(args, 'pattern'))
+  } catch (err) {
+    throw new Error(`invalid pattern: ${(err as Error).message}`)
+  }
+  const root = resolvePath(workdir, args.path)
+  const matches: string[] = []
+
+  async function searchFile(file: string): Promise<void> {
+    const content = await fs.readFile(file, 'utf8').catch(() => '')
+    if (content.includes('\0')) return
+    content.split('\n').forEach((line, i) => {
+      if (matches.length < MAX_SEARCH_MATCHES && pattern.test(line)) {
+        matches.push(`${path.relative(workdir, file)}:${i + 1}: ${line.slice(0, 200)}`)
+      }
+    })
+  }
+
+  async function walk(dir: string): Promise<void> {
+    for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+      if (matches.length >= MAX_SEARCH_MATCHES) return
+      const full = path.join(dir, entry.name)
+      if (entry.isDirectory()) {
+        if (!SKIP_DIRS.has(entry.name)) await walk(full)
+        continue
+      }
+      if (entry.isFile()) await searchFile(full)
+    }
+  }
+
+  if ((await fs.stat(root)).isDirectory()) await walk(root)
+  else await searchFile(root)
+  if (matches.length === 0) return 'No matches'
+  return matches.join('\n') + (matches.length >= MAX_SEARCH_MATCHES ? '\n… (more matches)' : '')
+}
+
+/** Apply a unified diff with `git apply`, which also works outside a git repository */
+function applyPatch(args: Record<string, unknown>, { workdir, policy }: ToolEnv): Promise<string> {
+  const patch = stringArg(args, 'patch')
+  return new Promise((resolve, reject) => {
+    const child = spawn('git', ['apply', '--recount', '--whitespace=nowarn', '-'], {
+      cwd: workdir,
+      env: policy.env,
+    })
+    let output = ''
+    child.stdout.on('data', (chunk) => (output += chunk))
+    child.stderr.on('data', (chunk) => (output += chunk))
+    child.on('error', reject)
+    child.on('close', (code) => {
+      if (code === 0) resolve('Patch applied')
+      else reject(new Error(truncate(output.trim() || `git apply exited with ${code}`, 2000)))
+    })
+    child.stdin.end(patch.endsWith('\n') ? patch : `${patch}\n`)
+  })
+}
+
+export const TOOLS: ToolDefinition[] = [
+  {
+    name: 'shell',
+    description: 'Execute a shell command in the working directory and return stdout/stderr',
+    parameters: { command: { type: 'string', description: 'Shell command to run' } },
+    required: ['command'],
+    authorize: authorizeShell,
+    run: runShell,
+  },
+  {
+    name: 'read_file',
+    description: 'Read a text file, returned with line numbers',
+    parameters: {
+      path: { type: 'string', description: 'File path, relative to the working directory' },
+      offset: { type: 'integer', description: 'First line to read (1-based, default 1)' },
+      limit: { type: 'integer', description: `Number of lines (default ${DEFAULT_READ_LINES})` },
+    },
+    required: ['path'],
+    authorize: authorizePath,
+    run: readFile,
+  },
+  {
+    name: 'write_file',
+    description: 'Create or overwrite a file with the given content, creating parent directories',
+    parameters: {
+      path: { type: 'string', description: 'File path, relative to the working directory' },
+      content: { type: 'string', description: 'Full file content' },
+    },
+    required: ['path', 'content'],
+    authorize: authorizePath,
+    writes: (args) => (typeof args.path === 'string' ? [args.path] : []),
+    run: writeFile,
+  },
+  {
+    name: 'list_directory',
+    description: 'List the entries of a directory; subdirectories end with /',
+    parameters: {
+      path: { type: 'string', description: 'Directory path (default: the working directory)' },
+    },
+    required: [],
+    authorize: authorizePath,
+    run: listDirectory,
+  },
+  {
+    name: 'search',
+    description: 'Search file contents for a regular expression, returning path:line: text matches',
+    parameters: {
+      pattern: { type: 'string', description: 'JavaScript regular expression' },
+      path: {
+        type: 'string',
+        description: 'File or directory to search (default: working directory)',
+      },
+    },
+    required: ['pattern'],
+    authorize: authorizePath,
+    run: search,
+  },
+  {
+    name: 'apply_patch',
+    description:
+      'Apply a unified diff (as produced by `git diff` or `diff -u`) to files in the working directory',
+    parameters: { patch: { type: 'string', description: 'Unified diff text' } },
+    required: ['patch'],
+    authorize: authorizePatch,
+    writes: patchTargets,
+    run: applyPatch,
+  },
+]
+
+const toolsByName = new Map(TOOLS.map((tool) => [tool.name, tool]))
+
+function jsonSchema(tool: ToolDefinition) {
+  return { type: 'object', properties: tool.parameters, required: tool.required }
+}
+
+/** Tool definitions in OpenAI chat-completions format */
+export function openAITools() {
+  return TOOLS.map((tool) => ({
+    type: 'function' as const,
+    function: { name: tool.name, description: tool.description, parameters: jsonSchema(tool) },
+  }))
+}
+
+/** Tool definitions as Gemini function declarations */
+export function geminiTools(): GeminiTool[] {
+  return [
+    {
+      functionDeclarations: TOOLS.map((tool) => ({
+        name: tool.name,
+        description: tool.description,
+        parametersJsonSchema: jsonSchema(tool),
+      })),
+    },
+  ]
+}
+
+/** Parse a model's JSON tool arguments; malformed input becomes no arguments */
+export function parseToolArgs(json: string | undefined): Record<string, unknown> {
+  try {
+    const args = JSON.parse(json || '{}')
+    return args && typeof args === 'object' ? args : {}
+  } catch {
+    return {}
+  }
+}
+
+/** One-line summary of tool arguments for output logs */
+export function summarizeArgs(args: unknown): string {
+  if (!args) return ''
+  if (typeof args === 'string') return args.slice(0, 80)
+  const obj = args as Record<string, unknown>
+  if (typeof obj.command === 'string') return obj.command.slice(0, 80)
+  if (typeof obj.file_path === 'string') return obj.file_path
+  if (typeof obj.path === 'string') return obj.path as string
+  if (typeof obj.pattern === 'string') return obj.pattern.slice(0, 80)
+  return JSON.stringify(args).slice(0, 80)
+}
+
+/** Which approval rule a call matches, if any */
+function approvalReason(
+  rules: CompiledApprovalRules,
+  tool: ToolDefinition,
+  call: ToolCall,
+  workdir: string
+): string | undefined {
+  if (rules.tools.has(tool.name)) return `${tool.name} requires approval`
+  const command = tool.name === 'shell' ? call.args.command : undefined
+  const pattern =
+    typeof command === 'string' ? rules.commands.find((p) => p.test(command)) : undefined
+  if (pattern) return `command matches ${pattern.source}`
+
+  const { writablePaths } = rules
+  if (!writablePaths || !tool.writes) return undefined
+  const roots = writablePaths.map((p) => path.resolve(workdir, p))
+  const outside = tool.writes(call.args).find((target) => {
+    const file = path.resolve(workdir, target)
+    return !roots.some((root) => resolveInside(root, file))
+  })
+  return outside ? `writes outside ${writablePaths.join(', ')}: ${outside}` : undefined
+}
+
+function report(ctx: ProviderContext, line: string): void {
+  ctx.onOutput(line)
+  ctx.onEvent({ type: 'output', sessionId: ctx.sessionId, data: { text: line } })
+}
+
+/**
+ * Execute a tool call and report it: tool.start, a summary line, the result as output,
+ * tool.end. Failures are returned to the model as an "Error: ..." result; calls the
+ * policy refuses emit tool.denied and don't run. Calls needing approval emit
+ * tool.approval_required and wait; a rejection is returned to the model as an error.
+ */
+export async function runToolCall(ctx: ProviderContext, call: ToolCall): Promise<string> {
+  const { sessionId } = ctx
+  const env: ToolEnv = { workdir: ctx.workdir, policy: ctx.policy }
+  const tool = toolsByName.get(call.name)
+
+  const summary = `${call.name}(${summarizeArgs(call.args)})`
+  const request = { toolName: call.name, toolCallId: call.id, args: call.args }
+
+  const denied = tool?.authorize?.(call.args, env)
+  if (denied) {
+    ctx.onEvent({ type: 'tool.denied', sessionId, data: { ...request, reason: denied } })
+    report(ctx, `⛔ ${summary} denied: ${denied}`)
+    return `Error: denied by policy: ${denied}`
+  }
+
+  const needsApproval =
+    tool && ctx.approval && approvalReason(ctx.approval, tool, call, env.workdir)
+  if (needsApproval) {
+    // Register the pending call before announcing it, so a decision can't arrive first
+    const pending = ctx.requestApproval({ ...request, reason: needsApproval })
+    ctx.onEvent({
+      type: 'tool.approval_required',
+      sessionId,
+      data: { ...request, reason: needsApproval },
+    })
+    report(ctx, `⏸️  ${summary} awaiting approval: ${needsApproval}`)
+    const decision = await pending
+    if (!decision.approved) {
+      const why = decision.reason ? `: ${decision.reason}` : ''
+      report(ctx, `🚫 ${summary} rejected${why}`)
+      return `Error: the user rejected this tool call${why}`
+    }
+  }
+
+  if (tool?.writes) ctx.checkpoint('write', summary)
+  ctx.onEvent({ type: 'tool.start', sessionId, data: request })
+  ctx.onOutput(`⚡ ${summary}`)
+
+  let result: string
+  let isError = false
+  try {
+    if (!tool) throw new Error(`unknown tool: ${call.name}`)
+    result = truncate(await tool.run(call.args, env), ctx.policy.maxOutputChars)
+  } catch (err) {
+    result = `Error: ${(err as Error).message}`
+    isError = true
+  }
+
+  ctx.onOutput(result)
+  ctx.onEvent({
+    type: 'tool.end',
+    sessionId,
+    data: { toolName: call.name, toolCallId: call.id, isError },
+  })
+  ctx.onEvent({ type: 'output', sessionId, data: { text: result } })
+  return result
+}
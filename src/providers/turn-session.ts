@@ -0,0 +1,86 @@
+/**
+ * Turn-based sessions — adapts stateless request/response APIs (OpenAI, Google) to
+ * the ProviderSession contract. Each prompt() runs one tool loop over the conversation
+ * so far, with its own AbortSignal. Responses are streamed: text reaches clients as it is
+ * generated, see createTextStream().
+ */
+import type { ProviderContext, ProviderSession } from './types.js'
+
+/** Run one turn: append `prompt` to `history` and loop until the model stops calling tools */
+export type TurnRunner = (
+  ctx: ProviderContext,
+  prompt: string,
+  history: unknown[],
+  signal: AbortSignal
+) => Promise<void>
+
+export function createTurnSession(ctx: ProviderContext, runTurn: TurnRunner): ProviderSession {
+  let history = ctx.history
+  let controller: AbortController | null = null
+
+  const turnCtx: ProviderContext = {
+    ...ctx,
+    onHistory: (messages) => {
+      history = messages
+      ctx.onHistory(messages)
+    },
+  }
+
+  return {
+    model: ctx.model,
+    async prompt(text: string): Promise<void> {
+      if (controller) throw new Error('a turn is already running')
+      controller = new AbortController()
+      try {
+        await runTurn(turnCtx, text, history, controller.signal)
+      } finally {
+        controller = null
+      }
+    },
+    abort(): void {
+      controller?.abort()
+    },
+    dispose(): void {
+      controller?.abort()
+    },
+  }
+}
+
+export interface TextStream {
+  /** Emit a chunk of response text as a `streaming` output delta */
+  push(delta: string): void
+  /**
+   * Finish the response text: store it as one output line and emit it with `complete: true`.
+   * Returns the assembled text.
+   */
+  end(): string
+}
+
+/** Collect a streamed response's text, broadcasting deltas as they arrive */
+export function createTextStream(ctx: ProviderContext): TextStream {
+  let text = ''
+  return {
+    push(delta) {
+      if (!delta) return
+      text += delta
+      ctx.onEvent({
+        type: 'output',
+        sessionId: ctx.sessionId,
+        data: { text: delta, streaming: true },
+      })
+    },
+    end() {
+      const full = text
+      text = ''
+      if (full) {
+        ctx.onOutput(full)
+        ctx.onEvent({
+          type: 'output',
+          sessionId: ctx.sessionId,
+          data: { text: full, complete: true },
+        })
+      }
+      return full
+    },
+  }
+}
@@ -1,20 +1,80 @@
 /**
  * Provider interface — all agent providers implement this contract.
  * Providers receive callbacks for output/events and must NOT import db/events directly.
+ *
+ * A provider opens a ProviderSession per reef session. The router drives it: one
+ * prompt() per turn, followUp() for messages sent while a turn is running, abort()
+ * on kill. After a turn the session stays open, idle, awaiting the next prompt.
  */
-import type { Provider, ReefEvent } from '../shared-types.js'
+import type {
+  ApprovalDecision,
+  ApprovalRequest,
+  Backend,
+  Provider,
+  ReefEvent,
+  TokenUsage,
+} from '../shared-types.js'
+import type { EffectivePolicy } from '../policy.js'
+import type { CompiledApprovalRules } from '../approvals.js'
 
 export interface AgentProvider {
   name: Provider
-  run(ctx: ProviderContext): Promise<void>
+  /** Backend recorded on the session row */
+  backend: Backend
+  /** Model used when the spawn request doesn't name one */
+  defaultModel: string
+  /** Whether the provider's runtime can be loaded; assumed available if omitted */
+  isAvailable?(): Promise<boolean>
+  /** Check a spawn request's providerOptions; returns an error message if they are invalid */
+  validateOptions?(options: Record<string, unknown>): string | undefined
+  /**
+   * Open a session. Resumes from ctx.history or ctx.sessionFile when set; no
+   * prompt is sent until the router calls prompt().
+   */
+  createSession(ctx: ProviderContext): Promise<ProviderSession>
+}
+
+export interface ProviderSession {
+  /** Model id the session actually runs */
+  model: string
+  /** File the provider persists its own conversation to, if it does */
+  sessionFile?: string
+  /** Run one turn. Resolves when the agent stops and awaits input. */
+  prompt(text: string): Promise<void>
+  /** Queue a message for the running turn; omitted if the provider can't take input mid-turn */
+  followUp?(text: string): Promise<void>
+  /** Abort the running turn, if any */
+  abort(): void
+  /** Release listeners and other resources; the session is not used again */
+  dispose(): void
 }
 
 export interface ProviderContext {
   sessionId: string
-  task: string
   model: string
   workdir: string
+  /** Provider-specific settings from the spawn request (empty if none were given) */
+  options: Record<string, unknown>
+  /** Provider-native messages from earlier turns (empty for a new session) */
+  history: unknown[]
+  /** Conversation file recorded by a previous ProviderSession, when resuming */
+  sessionFile?: string
+  /** Command policy and limits for tools the provider runs itself (see providers/tools.ts) */
+  policy: EffectivePolicy
+  /** Tool calls that must be approved before they run, if the session has rules */
+  approval?: CompiledApprovalRules
+  /** Persist the conversation; call only at points where it can be resumed */
+  onHistory: (messages: unknown[]) => void
   onOutput: (line: string) => void
+  /** Report the tokens used by one model response */
+  onUsage: (usage: TokenUsage) => void
+  /** Wait for a client to approve or reject a tool call; emit tool.approval_required too */
+  requestApproval: (request: ApprovalRequest) => Promise<ApprovalDecision>
+  /**
+   * Checkpoint the workdir before the agent changes it: at the start of each model turn
+   * and before a tool call that writes files. Cheap when nothing changed.
+   */
+  checkpoint: (reason: 'turn' | 'write', detail?: string) => void
+  /** Emit a reef event; streaming output is sent as `output` with `streaming: true` */
   onEvent: (event: Omit<ReefEvent, 'timestamp'>) => void
-  signal: AbortSignal
 }
@@ -0,0 +1,206 @@
+/**
+ * SpawnScheduler — admits sessions under global and per-provider concurrency caps
+ *
+ * Sessions that can't start immediately are persisted with status 'queued' and held here
+ * until a slot frees up. Slots are released when a session ends (session.end or a terminal
+ * status event), goes idle awaiting input, or when a periodic sweep finds the session is no
+ * longer alive. Follow-up turns on an idle session are not re-admitted through the queue.
+ */
+import type { Provider, SessionStatus } from './shared-types.js'
+import { eventBus, emitReefEvent } from './events.js'
+
+const SWEEP_INTERVAL_MS = 5000
+const PER_PROVIDER_PREFIX = 'REEF_MAX_CONCURRENT_'
+const RELEASING_STATUSES: SessionStatus[] = [
+  'idle',
+  'interrupted',
+  'completed',
+  'error',
+  'stopped',
+  'budget_exceeded',
+]
+
+export interface SchedulerLimits {
+  /** Max concurrently running sessions across all providers (0 = unlimited) */
+  global: number
+  /** Max concurrently running sessions per provider, keyed by limitKey() (missing = unlimited) */
+  perProvider: Record<string, number>
+}
+
+export interface QueueEntry {
+  sessionId: string
+  provider: Provider
+  priority: number
+  enqueuedAt: string
+}
+
+interface ActiveEntry {
+  provider: Provider
+  starting: boolean
+}
+
+/** Spawn priorities are integers within ±MAX_PRIORITY; only admins may go above 0 */
+const MAX_PRIORITY = 1000
+
+/** Check a spawn request's priority; returns an error message if it isn't allowed */
+export function validatePriority(priority: unknown, admin: boolean): string | undefined {
+  if (priority === undefined) return undefined
+  if (typeof priority !== 'number' || !Number.isInteger(priority)) {
+    return 'priority must be an integer'
+  }
+  const max = admin ? MAX_PRIORITY : 0
+  if (priority < -MAX_PRIORITY || priority > max) {
+    return `priority must be between ${-MAX_PRIORITY} and ${max}`
+  }
+  return undefined
+}
+
+function envInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10)
+  return Number.isNaN(value) || value < 0 ? fallback : value
+}
+
+/** Per-provider limit key: the provider name as it appears in an env var, lowercased */
+function limitKey(provider: Provider): string {
+  return provider.toLowerCase().replace(/[^a-z0-9]/g, '_')
+}
+
+/**
+ * Read limits from REEF_MAX_CONCURRENT and REEF_MAX_CONCURRENT_<PROVIDER>
+ * (e.g. REEF_MAX_CONCURRENT_OPENAI, or REEF_MAX_CONCURRENT_MY_AGENT for "my-agent").
+ */
+export function loadLimitsFromEnv(): SchedulerLimits {
+  const perProvider: SchedulerLimits['perProvider'] = {}
+  for (const name of Object.keys(process.env)) {
+    if (!name.startsWith(PER_PROVIDER_PREFIX)) continue
+    const limit = envInt(name, 0)
+    if (limit > 0) perProvider[limitKey(name.slice(PER_PROVIDER_PREFIX.length))] = limit
+  }
+  return { global: envInt('REEF_MAX_CONCURRENT', 8), perProvider }
+}
+
+export class SpawnScheduler {
+  private active = new Map<string, ActiveEntry>()
+  private queue: QueueEntry[] = []
+  private sweepTimer: NodeJS.Timeout | null = null
+
+  constructor(
+    private limits: SchedulerLimits,
+    private starter: (sessionId: string) => Promise<void>,
+    private isAlive: (sessionId: string) => boolean
+  ) {
+    eventBus.onReef((event) => {
+      const released =
+        event.type === 'session.end' ||
+        (event.type === 'status' && RELEASING_STATUSES.includes(event.data.status))
+      if (released) this.release(event.sessionId)
+    })
+  }
+
+  hasCapacity(provider: Provider): boolean {
+    if (this.limits.global > 0 && this.active.size >= this.limits.global) return false
+    const providerLimit = this.limits.perProvider[limitKey(provider)]
+    if (!providerLimit) return true
+    let count = 0
+    for (const entry of this.active.values()) {
+      if (entry.provider === provider) count++
+    }
+    return count < providerLimit
+  }
+
+  hasPending(): boolean {
+    return this.queue.length > 0
+  }
+
+  /** Claim a slot for a session that is about to start */
+  markActive(sessionId: string, provider: Provider): void {
+    this.active.set(sessionId, { provider, starting: true })
+  }
+
+  /** The session finished starting; liveness sweeps may now reclaim its slot */
+  markStarted(sessionId: string): void {
+    const entry = this.active.get(sessionId)
+    if (entry) entry.starting = false
+  }
+
+  enqueue(entry: QueueEntry): void {
+    this.insertOrdered(entry)
+    emitReefEvent('session.queued', entry.sessionId, {
+      provider: entry.provider,
+      priority: entry.priority,
+      position: this.queue.indexOf(entry) + 1,
+    })
+    this.drain()
+  }
+
+  /** Re-queue entries persisted by a previous process, without re-announcing them */
+  restore(entries: QueueEntry[]): void {
+    for (const entry of entries) this.insertOrdered(entry)
+    this.drain()
+  }
+
+  /** Drop a queued session. Returns false if it wasn't queued. */
+  remove(sessionId: string): boolean {
+    const index = this.queue.findIndex((e) => e.sessionId === sessionId)
+    if (index === -1) return false
+    this.queue.splice(index, 1)
+    this.updateSweep()
+    return true
+  }
+
+  release(sessionId: string): void {
+    if (!this.active.delete(sessionId)) return
+    this.drain()
+  }
+
+  getStats(): { active: number; queued: number; limits: SchedulerLimits } {
+    return { active: this.active.size, queued: this.queue.length, limits: this.limits }
+  }
+
+  /** Start queued sessions in priority order while there is capacity */
+  private drain(): void {
+    this.sweep()
+    for (const entry of [...this.queue]) {
+      if (this.limits.global > 0 && this.active.size >= this.limits.global) break
+      if (!this.hasCapacity(entry.provider)) continue
+
+      this.queue.splice(this.queue.indexOf(entry), 1)
+      this.markActive(entry.sessionId, entry.provider)
+      this.starter(entry.sessionId)
+        .then(() => this.markStarted(entry.sessionId))
+        .catch((err: Error) => {
+          console.error(`Failed to start queued session ${entry.sessionId}:`, err.message)
+          this.release(entry.sessionId)
+        })
+    }
+    this.updateSweep()
+  }
+
+  /** Reclaim slots held by sessions that died without emitting an end event */
+  private sweep(): void {
+    for (const [sessionId, entry] of this.active) {
+      if (!entry.starting && !this.isAlive(sessionId)) this.active.delete(sessionId)
+    }
+  }
+
+  private updateSweep(): void {
+    if (this.queue.length > 0 && !this.sweepTimer) {
+      this.sweepTimer = setInterval(() => this.drain(), SWEEP_INTERVAL_MS)
+      this.sweepTimer.unref()
+    } else if (this.queue.length === 0 && this.sweepTimer) {
+      clearInterval(this.sweepTimer)
+      this.sweepTimer = null
+    }
+  }
+
+  /** Highest priority first, FIFO within the same priority */
+  private insertOrdered(entry: QueueEntry): void {
+    const index = this.queue.findIndex(
+      (e) =>
+        e.priority < entry.priority ||
+        (e.priority === entry.priority && e.enqueuedAt > entry.enqueuedAt)
+    )
+    if (index === -1) this.queue.push(entry)
+    else this.queue.splice(index, 0, entry)
+  }
+}
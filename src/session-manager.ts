@@ -1,328 +1,282 @@
 /**
- * SessionManager — owns session lifecycle, running sessions map, tmux coordination
+ * SessionManager — owns session rows, ids and the tmux backend
+ *
+ * Registry provider sessions are driven by ProviderRouter; this class persists their
+ * rows and runs the tmux panes used when no SDK is available.
  */
 import crypto from 'crypto'
 import type { SessionRow } from './db.js'
-import { insertSession, updateSession, appendOutput } from './db.js'
+import type { SessionBudget } from './shared-types.js'
+import {
+  insertSession,
+  getSession,
+  updateSession,
+  appendCapturedOutput,
+  getOutputOffset,
+  getOutputPage,
+  type OutputPage,
+  type OutputQuery,
+} from './db.js'
 import { emitReefEvent } from './events.js'
 import {
   spawnAgent as spawnTmuxAgent,
+  spawnInteractiveAgent as spawnInteractiveTmuxAgent,
+  sendToSession as sendToTmuxSession,
   killSession as killTmuxSession,
   captureOutput,
   sessionExists,
+  readLogFrom,
 } from './tmux.js'
 
-/** Opaque Pi SDK session */
-interface PiSession {
-  subscribe: (listener: (event: PiSdkEvent) => void) => () => void
-  prompt: (text: string) => Promise<void>
-  agent?: { abort: () => void }
-}
-
-interface PiSdkEvent {
-  type: string
-  assistantMessageEvent?: {
-    type: string
-    content?: { type: string; text?: string }
-  }
-  message?: { role: string; content: unknown }
-  toolName?: string
-  toolCallId?: string
-  args?: unknown
-  isError?: boolean
-}
-
-interface ContentBlock {
-  type: string
-  text?: string
-}
-
-interface RunningSession {
-  session: PiSession
-  unsubscribe: () => void
-  abortController: AbortController
-}
-
-interface RunningProviderSession {
-  abortController: AbortController
-}
-
-// Pi SDK dynamic imports
-let piSdkAvailable = false
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-let createAgentSession: any
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-let getModel: any
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-let PiSessionManager: any
-
-async function loadPiSdk(): Promise<boolean> {
-  try {
-    const codingAgent = await import('@mariozechner/pi-coding-agent')
-    createAgentSession = codingAgent.createAgentSession
-    PiSessionManager = codingAgent.SessionManager
-    const ai = await import('@mariozechner/pi-ai')
-    getModel = ai.getModel
-    piSdkAvailable = true
-    console.log('✅ Pi SDK loaded successfully')
-    return true
-  } catch (err) {
-    console.warn('⚠️  Pi SDK not available, using tmux fallback:', (err as Error).message)
-    piSdkAvailable = false
-    return false
-  }
-}
+const TMUX_POLL_MS = 2000
 
 function uid(): string {
   return crypto.randomBytes(6).toString('hex')
 }
 
-function summarizeArgs(args: unknown): string {
-  if (!args) return ''
-  if (typeof args === 'string') return args.slice(0, 80)
-  const obj = args as Record<string, unknown>
-  if (typeof obj.command === 'string') return obj.command.slice(0, 80)
-  if (typeof obj.file_path === 'string') return obj.file_path
-  if (typeof obj.path === 'string') return obj.path as string
-  return JSON.stringify(args).slice(0, 80)
-}
-
 export class SessionManager {
-  private sdkSessions = new Map<string, RunningSession>()
-  private providerSessions = new Map<string, RunningProviderSession>()
-  private sdkReady: Promise<boolean>
-
-  constructor() {
-    this.sdkReady = loadPiSdk()
-  }
-
-  async waitForSdk(): Promise<void> {
-    await this.sdkReady
-  }
+  /** sessionId → tmux session name, for panes whose log is being polled */
+  private tmuxSessions = new Map<string, string>()
+  private tmuxPoller: NodeJS.Timeout | null = null
 
   generateId(): string {
     return uid()
   }
 
-  isPiSdkAvailable(): boolean {
-    return piSdkAvailable
-  }
-
-  // ── SDK (Anthropic) sessions ──
+  // ── Tmux sessions ──
 
-  async spawnSdkSession(
+  spawnTmuxSession(
     sessionId: string,
     task: string,
-    model: string | undefined,
-    workdir: string
-  ): Promise<SessionRow> {
-    const resolvedModel = model
-      ? getModel('anthropic', model)
-      : getModel('anthropic', 'claude-sonnet-4-20250514')
-
-    const { session } = await createAgentSession({
-      cwd: workdir,
-      model: resolvedModel,
-      sessionManager: PiSessionManager.inMemory(),
-    })
-
+    workdir?: string,
+    userId?: string,
+    interactive = false,
+    budget?: SessionBudget
+  ): SessionRow {
+    const tmux = interactive
+      ? spawnInteractiveTmuxAgent(task, workdir)
+      : spawnTmuxAgent(task, workdir, budget?.maxTurns)
     const now = new Date().toISOString()
     const row: SessionRow = {
       id: sessionId,
       task,
       status: 'running',
-      backend: 'sdk',
-      model: resolvedModel.id,
+      backend: 'tmux',
+      tmux_session: tmux.tmuxSession,
+      user_id: userId,
+      workdir,
+      interactive,
+      budget,
+      started_at: now,
       created_at: now,
       updated_at: now,
       output: [],
     }
-    insertSession(row)
-    emitReefEvent('session.new', sessionId, { task, backend: 'sdk', model: resolvedModel.id })
-
-    const unsubscribe = session.subscribe((event: PiSdkEvent) => {
-      this.handleSdkEvent(sessionId, event)
-    })
-
-    const abortController = new AbortController()
-    this.sdkSessions.set(sessionId, { session, unsubscribe, abortController })
+    this.persistStartedRow(row)
+    this.watchTmux(sessionId, tmux.tmuxSession)
+    return row
+  }
 
-    session
-      .prompt(task)
-      .then(() => {
-        updateSession(sessionId, { status: 'completed' })
-        emitReefEvent('status', sessionId, { status: 'completed' })
-        emitReefEvent('session.end', sessionId, { reason: 'completed' })
-        this.sdkSessions.delete(sessionId)
-      })
-      .catch((err: Error) => {
-        const msg = `Error: ${err.message}`
-        appendOutput(sessionId, msg)
-        emitReefEvent('output', sessionId, { text: msg })
-        updateSession(sessionId, { status: 'error' })
-        emitReefEvent('status', sessionId, { status: 'error', error: err.message })
-        this.sdkSessions.delete(sessionId)
-      })
+  /**
+   * Pull lines appended to the pane log into output_lines and broadcast them.
+   * Returns false if the session has no pane log (spawned before logging existed).
+   */
+  syncTmuxOutput(sessionId: string, tmuxSession: string): boolean {
+    const result = readLogFrom(tmuxSession, getOutputOffset(sessionId))
+    if (!result) return false
+    if (result.lines.length > 0) {
+      appendCapturedOutput(sessionId, result.lines, result.offset)
+      emitReefEvent('output', sessionId, { text: result.lines.join('\n') })
+    }
+    return true
+  }
 
-    return row
+  private watchTmux(sessionId: string, tmuxSession: string): void {
+    this.tmuxSessions.set(sessionId, tmuxSession)
+    if (this.tmuxPoller) return
+    this.tmuxPoller = setInterval(() => {
+      for (const [id, name] of this.tmuxSessions) {
+        this.syncTmuxOutput(id, name)
+        if (!sessionExists(name)) this.tmuxSessions.delete(id)
+      }
+      if (this.tmuxSessions.size === 0 && this.tmuxPoller) {
+        clearInterval(this.tmuxPoller)
+        this.tmuxPoller = null
+      }
+    }, TMUX_POLL_MS)
+    this.tmuxPoller.unref()
   }
 
-  // ── Tmux sessions ──
+  // ── Registry provider sessions ──
 
-  spawnTmuxSession(sessionId: string, task: string, workdir?: string): SessionRow {
-    const tmux = spawnTmuxAgent(task, workdir)
+  /** Persist a row for a session opened by ProviderRouter */
+  createProviderRow(
+    sessionId: string,
+    task: string,
+    fields: Pick<
+      SessionRow,
+      | 'backend'
+      | 'provider'
+      | 'model'
+      | 'workdir'
+      | 'user_id'
+      | 'sdk_session_file'
+      | 'provider_options'
+      | 'tool_policy'
+      | 'approval_rules'
+      | 'budget'
+      | 'candidates'
+      | 'candidate'
+    >
+  ): SessionRow {
     const now = new Date().toISOString()
     const row: SessionRow = {
       id: sessionId,
       task,
       status: 'running',
-      backend: 'tmux',
-      tmux_session: tmux.tmuxSession,
+      ...fields,
+      started_at: now,
       created_at: now,
       updated_at: now,
       output: [],
     }
-    insertSession(row)
-    emitReefEvent('session.new', sessionId, { task, backend: 'tmux' })
+    this.persistStartedRow(row)
     return row
   }
 
-  // ── Provider sessions (OpenAI, Google via registry) ──
-
-  registerProviderRun(sessionId: string, abortController: AbortController): void {
-    this.providerSessions.set(sessionId, { abortController })
-  }
-
-  completeProviderSession(sessionId: string): void {
-    this.providerSessions.delete(sessionId)
-  }
+  // ── Queued sessions ──
 
-  createProviderRow(sessionId: string, task: string, provider: string, model: string): SessionRow {
+  /**
+   * Persist a session waiting for a scheduler slot. The backend is provisional for
+   * Anthropic sessions and is settled when the session actually starts.
+   */
+  createQueuedRow(
+    sessionId: string,
+    fields: Pick<
+      SessionRow,
+      | 'task'
+      | 'backend'
+      | 'provider'
+      | 'model'
+      | 'workdir'
+      | 'priority'
+      | 'user_id'
+      | 'interactive'
+      | 'provider_options'
+      | 'tool_policy'
+      | 'approval_rules'
+      | 'budget'
+      | 'candidates'
+      | 'worktree'
+    >
+  ): SessionRow {
     const now = new Date().toISOString()
     const row: SessionRow = {
       id: sessionId,
-      task,
-      status: 'running',
-      backend: provider as SessionRow['backend'],
-      provider: provider as SessionRow['provider'],
-      model,
+      ...fields,
+      status: 'queued',
       created_at: now,
       updated_at: now,
       output: [],
     }
     insertSession(row)
-    emitReefEvent('session.new', sessionId, { task, backend: provider, model, provider })
+    emitReefEvent('session.new', sessionId, {
+      task: row.task,
+      backend: row.backend,
+      provider: row.provider,
+      model: row.model,
+    })
     return row
   }
 
+  /** Insert a freshly started row, or promote the existing queued row to running */
+  private persistStartedRow(row: SessionRow): void {
+    const queued = getSession(row.id)
+    if (queued) {
+      updateSession(row.id, {
+        status: row.status,
+        backend: row.backend,
+        provider: row.provider,
+        model: row.model,
+        tmux_session: row.tmux_session,
+        workdir: row.workdir,
+        sdk_session_file: row.sdk_session_file,
+        started_at: row.started_at,
+        candidate: row.candidate,
+      })
+      row.created_at = queued.created_at
+      row.priority = queued.priority
+    } else {
+      insertSession(row)
+      emitReefEvent('session.new', row.id, {
+        task: row.task,
+        backend: row.backend,
+        provider: row.provider,
+        model: row.model,
+      })
+    }
+    emitReefEvent('session.started', row.id, {
+      backend: row.backend,
+      provider: row.provider,
+      model: row.model,
+    })
+  }
+
   // ── Lifecycle ──
 
-  async sendMessage(sessionId: string, message: string): Promise<boolean> {
-    const running = this.sdkSessions.get(sessionId)
-    if (!running) return false
+  /**
+   * Pick up a tmux session left running by a previous process. Returns false if the
+   * pane is gone.
+   */
+  reattachTmux(row: SessionRow): boolean {
+    if (!row.tmux_session || !sessionExists(row.tmux_session)) return false
+    this.watchTmux(row.id, row.tmux_session)
+    return true
+  }
+
+  /**
+   * Paste a message into an interactive claude pane. Print-mode panes are refused:
+   * once `claude --print` exits, pasted text would run as a shell command.
+   */
+  sendTmuxMessage(row: SessionRow, message: string): boolean {
+    if (!row.interactive || !row.tmux_session || !sessionExists(row.tmux_session)) return false
     try {
-      await running.session.prompt(message)
+      sendToTmuxSession(row.tmux_session, message)
       return true
     } catch {
       return false
     }
   }
 
-  kill(sessionId: string, row: SessionRow): void {
-    // SDK session
-    const sdkSession = this.sdkSessions.get(sessionId)
-    if (sdkSession) {
-      sdkSession.session.agent?.abort()
-      sdkSession.unsubscribe()
-      this.sdkSessions.delete(sessionId)
-    }
-
-    // Provider session
-    const provSession = this.providerSessions.get(sessionId)
-    if (provSession) {
-      provSession.abortController.abort()
-      this.providerSessions.delete(sessionId)
-    }
-
-    // Tmux session
-    if (row.tmux_session) {
-      killTmuxSession(row.tmux_session)
-    }
-
-    emitReefEvent('session.end', sessionId, { reason: 'killed' })
+  /** Kill a tmux pane, capturing whatever it printed last before it goes away */
+  killTmux(sessionId: string, row: SessionRow): void {
+    if (!row.tmux_session) return
+    this.syncTmuxOutput(sessionId, row.tmux_session)
+    this.tmuxSessions.delete(sessionId)
+    killTmuxSession(row.tmux_session)
   }
 
   getOutput(sessionId: string, row: SessionRow): string {
-    if (row.backend === 'sdk') return row.output.join('\n')
-    if (row.tmux_session) return captureOutput(row.tmux_session)
-    // Provider sessions store in DB
-    return row.output.join('\n')
+    const page = this.getOutputPage(sessionId, row, {})
+    if (page) return page.lines.map((l) => l.text).join('\n')
+    return row.tmux_session ? captureOutput(row.tmux_session) : ''
   }
 
-  isAlive(sessionId: string, row: SessionRow): boolean {
-    if (row.backend === 'sdk') return this.sdkSessions.has(sessionId)
-    if (row.tmux_session) return sessionExists(row.tmux_session)
-    // Provider sessions
-    return this.providerSessions.has(sessionId)
+  /**
+   * Read stored output lines by cursor. Tmux panes are synced first so all backends
+   * share the same line model. Returns null for tmux sessions without a pane log.
+   */
+  getOutputPage(sessionId: string, row: SessionRow, query: OutputQuery): OutputPage | null {
+    if (row.tmux_session && !this.syncTmuxOutput(sessionId, row.tmux_session)) return null
+    return getOutputPage(sessionId, query)
   }
 
-  getStats(): { sdk: number; tmux: number; provider: number; total: number } {
-    return {
-      sdk: this.sdkSessions.size,
-      tmux: 0,
-      provider: this.providerSessions.size,
-      total: this.sdkSessions.size + this.providerSessions.size,
-    }
+  isTmuxAlive(row: Pick<SessionRow, 'tmux_session'>): boolean {
+    return !!row.tmux_session && sessionExists(row.tmux_session)
   }
 
-  // ── SDK event handling ──
-
-  private handleSdkEvent(sessionId: string, event: PiSdkEvent): void {
-    switch (event.type) {
-      case 'message_update': {
-        const msg = event.assistantMessageEvent
-        if (msg?.type === 'content' && msg.content?.type === 'text') {
-          const text = msg.content.text || ''
-          if (text) {
-            appendOutput(sessionId, text)
-            emitReefEvent('output', sessionId, { text, streaming: true })
-          }
-        }
-        break
-      }
-      case 'message_end': {
-        const message = event.message
-        if (message?.role === 'assistant') {
-          const content = Array.isArray(message.content)
-            ? (message.content as ContentBlock[])
-                .filter((c) => c.type === 'text')
-                .map((c) => c.text || '')
-                .join('')
-            : String(message.content || '')
-          if (content) {
-            emitReefEvent('output', sessionId, { text: content, complete: true })
-          }
-        }
-        break
-      }
-      case 'tool_execution_start':
-        emitReefEvent('tool.start', sessionId, {
-          toolName: event.toolName,
-          toolCallId: event.toolCallId,
-          args: event.args,
-        })
-        appendOutput(sessionId, `⚡ ${event.toolName}(${summarizeArgs(event.args)})`)
-        break
-      case 'tool_execution_end':
-        emitReefEvent('tool.end', sessionId, {
-          toolName: event.toolName,
-          toolCallId: event.toolCallId,
-          isError: event.isError,
-        })
-        break
-      case 'turn_start':
-        emitReefEvent('output', sessionId, { text: '--- turn ---', meta: true })
-        break
-    }
+  /** Number of tmux panes being watched */
+  getTmuxCount(): number {
+    return this.tmuxSessions.size
   }
 }
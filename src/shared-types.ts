@@ -4,12 +4,160 @@
 
 // ─── Enums / Unions ───
 
-export type SessionStatus = 'running' | 'completed' | 'error' | 'stopped'
-export type Provider = 'anthropic' | 'openai' | 'google'
-export type Backend = 'sdk' | 'tmux' | 'openai' | 'google'
+export type SessionStatus =
+  | 'queued'
+  | 'running'
+  | 'idle'
+  | 'interrupted'
+  | 'completed'
+  | 'error'
+  | 'stopped'
+  | 'budget_exceeded'
+export type BuiltinProvider = 'anthropic' | 'openai' | 'google' | 'mock'
+/** A registered provider: a built-in, or one loaded from a plugin at startup (see GET /status) */
+export type Provider = BuiltinProvider | (string & {})
+/** 'sdk' for Anthropic via the Pi SDK, 'tmux' for the claude CLI, otherwise the provider's own */
+export type Backend = 'sdk' | 'tmux' | Provider
 
 // ─── Session ───
 
+/** Tokens used by one model response; inputTokens excludes cached input */
+export interface TokenUsage {
+  inputTokens: number
+  outputTokens: number
+  cachedTokens: number
+  /** Part of inputTokens written to the prompt cache, which costs more than plain input */
+  cacheWriteTokens?: number
+}
+
+/**
+ * Per-session tool restrictions. They can only tighten the server policy: deny patterns
+ * are added, a command must also match the allow list, limits are capped by the server's.
+ */
+export interface ToolPolicy {
+  /** Regexes; shell commands must match at least one */
+  allowCommands?: string[]
+  /** Regexes; shell commands matching any are refused */
+  denyCommands?: string[]
+  /** Shell command time limit */
+  timeoutMs?: number
+  /** Tool results are cut to this many characters */
+  maxOutputChars?: number
+}
+
+/** Tool calls matching any rule pause until a client approves or rejects them */
+export interface ApprovalRules {
+  /** Tools whose every call needs approval, e.g. `["apply_patch"]` */
+  tools?: string[]
+  /** Regexes; shell commands matching any need approval */
+  commands?: string[]
+  /** File writes outside these paths (relative to the workdir) need approval */
+  writablePaths?: string[]
+}
+
+/** A provider, and optionally a model, to run a session on */
+export interface ProviderCandidate {
+  provider: Provider
+  /** Default: the provider's default model */
+  model?: string
+}
+
+/** A session's isolated git worktree */
+export interface SessionWorktree {
+  /** Branch the session works on, `reef/<sessionId>` */
+  branch: string
+  /** Worktree directory */
+  path: string
+  /** Root of the repository the worktree was created from */
+  repo: string
+  /** Commit the branch started from */
+  base: string
+  state: 'active' | 'merged' | 'discarded'
+  /** Merge commit in `repo`, once merged */
+  mergeCommit?: string
+}
+
+/** A session's workdir as it was when the session started */
+export interface WorkdirSnapshot {
+  /** `git`: hashed into the workdir's repository; `files`: a plain directory, hashed privately */
+  kind: 'git' | 'files'
+  /** Git tree object holding the workdir's files */
+  tree: string
+  /** The repository's HEAD at the time, if it had commits */
+  head?: string
+  takenAt: string
+}
+
+/** A file a session added, modified or deleted, relative to its workdir */
+export interface FileChange {
+  path: string
+  status: 'added' | 'modified' | 'deleted'
+}
+
+/**
+ * Why a checkpoint was taken: the session `start`, the start of a model `turn`, a `write`
+ * tool call about to run, or a `restore` about to overwrite the workdir
+ */
+export type CheckpointReason = 'start' | 'turn' | 'write' | 'restore'
+
+/** A saved state of a session's workdir that it can be rolled back to */
+export interface Checkpoint {
+  id: number
+  sessionId: string
+  reason: CheckpointReason
+  /** The tool call for `write`, the checkpoint being restored for `restore` */
+  detail?: string
+  /** Git tree holding the workdir's files, comparable with the session's snapshot */
+  tree: string
+  createdAt: string
+}
+
+/** How a provider call failed; rate_limit, server and network failures are retried */
+export type ErrorKind =
+  | 'rate_limit'
+  | 'auth'
+  | 'invalid_model'
+  | 'context_overflow'
+  | 'network'
+  | 'server'
+  | 'unknown'
+
+/** A classified provider error */
+export interface SessionError {
+  kind: ErrorKind
+  message: string
+  /** HTTP status from the provider, when there was one */
+  status?: number
+  /** Whether waiting and trying again could succeed */
+  retryable: boolean
+}
+
+/** Limits that end a session once reached; unset fields fall back to the server defaults */
+export interface SessionBudget {
+  /** Model responses */
+  maxTurns?: number
+  /** Input, output and cached tokens together */
+  maxTokens?: number
+  maxCostUsd?: number
+  /** Wall-clock time since the session started */
+  maxDurationMs?: number
+}
+
+/** A tool call waiting for a decision */
+export interface ApprovalRequest {
+  toolName: string
+  toolCallId: string
+  args?: unknown
+  /** Which rule the call matched */
+  reason: string
+}
+
+export interface ApprovalDecision {
+  approved: boolean
+  /** Passed to the model when the call is rejected */
+  reason?: string
+}
+
 export interface SessionRow {
   id: string
   task: string
@@ -18,10 +166,48 @@ export interface SessionRow {
   provider?: Provider
   model?: string
   tmux_session?: string
+  user_id?: string
+  workdir?: string
+  priority?: number
+  /** Tmux session running claude interactively (accepts follow-up messages) */
+  interactive?: boolean
+  /** Persisted Pi SDK conversation, used to resume the session after a restart */
+  sdk_session_file?: string
+  /** Provider-specific settings from the spawn request, e.g. the mock provider's script */
+  provider_options?: Record<string, unknown>
+  /** Tool restrictions from the spawn request, on top of the server policy */
+  tool_policy?: ToolPolicy
+  /** Tool calls that wait for a client's approval */
+  approval_rules?: ApprovalRules
+  /** Limits after applying the server defaults and ceilings */
+  budget?: SessionBudget
+  /** When the session left the queue, the start of its duration budget */
+  started_at?: string
+  /** Fallback chain, the requested provider first; absent when there was nothing to fall back to */
+  candidates?: ProviderCandidate[]
+  /** Index in `candidates` of the provider and model the session runs on */
+  candidate?: number
+  /** Workdir state at start, which changes and diffs are measured against */
+  snapshot?: WorkdirSnapshot
+  /** Isolated worktree the session runs in; `workdir` points inside it */
+  worktree?: SessionWorktree
+  /** Why the session failed, while its status is `error` */
+  error?: SessionError
+  /** Model response count and token and cost totals over them */
+  turns?: number
+  input_tokens?: number
+  output_tokens?: number
+  cached_tokens?: number
+  cost_usd?: number
   created_at: string
   updated_at: string
 }
 
+/** Session row without output, as returned by `GET /sessions?summary=true` */
+export interface SessionSummary extends SessionRow {
+  output_lines: number
+}
+
 // ─── Events (discriminated union) ───
 
 export interface SessionNewEvent {
@@ -31,10 +217,25 @@ export interface SessionNewEvent {
   timestamp: string
 }
 
+export interface SessionQueuedEvent {
+  type: 'session.queued'
+  sessionId: string
+  data: { provider: Provider; priority: number; position: number }
+  timestamp: string
+}
+
+export interface SessionStartedEvent {
+  type: 'session.started'
+  sessionId: string
+  data: { backend: Backend; provider?: Provider; model?: string }
+  timestamp: string
+}
+
 export interface SessionEndEvent {
   type: 'session.end'
   sessionId: string
-  data: { reason: string }
+  /** `detail` says which limit ended a `budget_exceeded` session */
+  data: { reason: string; detail?: string }
   timestamp: string
 }
 
@@ -48,7 +249,8 @@ export interface OutputEvent {
 export interface StatusEvent {
   type: 'status'
   sessionId: string
-  data: { status: SessionStatus; error?: string }
+  /** `error` is set when the session goes to `error` */
+  data: { status: SessionStatus; error?: SessionError }
   timestamp: string
 }
 
@@ -66,16 +268,115 @@ export interface ToolEndEvent {
   timestamp: string
 }
 
+/** A tool call paused until a client approves or rejects it */
+export interface ToolApprovalRequiredEvent {
+  type: 'tool.approval_required'
+  sessionId: string
+  data: ApprovalRequest
+  timestamp: string
+}
+
+export interface ToolApprovalDecidedEvent {
+  type: 'tool.approval_decided'
+  sessionId: string
+  data: {
+    toolName: string
+    toolCallId: string
+    approved: boolean
+    reason?: string
+    /** User who decided; absent when the session closed first */
+    decidedBy?: string
+  }
+  timestamp: string
+}
+
+export interface UsageEvent {
+  type: 'usage'
+  sessionId: string
+  /** costUsd is absent when the model has no price */
+  data: TokenUsage & { model: string; costUsd?: number }
+  timestamp: string
+}
+
+/** A provider call failed transiently and will be tried again after `delayMs` */
+export interface RetryingEvent {
+  type: 'retrying'
+  sessionId: string
+  /** `attempt` is the upcoming try, counting the first call as 1 */
+  data: { attempt: number; maxAttempts: number; delayMs: number; error: SessionError }
+  timestamp: string
+}
+
+/** The session moved to the next candidate in its fallback chain */
+export interface ProviderFallbackEvent {
+  type: 'provider.fallback'
+  sessionId: string
+  data: { from: ProviderCandidate; to: ProviderCandidate; error: SessionError }
+  timestamp: string
+}
+
+export interface FilesChangedEvent {
+  type: 'files.changed'
+  sessionId: string
+  data: { files: FileChange[] }
+  timestamp: string
+}
+
+export interface CheckpointCreatedEvent {
+  type: 'checkpoint.created'
+  sessionId: string
+  data: { checkpointId: number; reason: CheckpointReason; detail?: string }
+  timestamp: string
+}
+
+export interface CheckpointRestoredEvent {
+  type: 'checkpoint.restored'
+  sessionId: string
+  /** `files` lists what the restore changed */
+  data: { checkpointId: number; files: FileChange[] }
+  timestamp: string
+}
+
+export interface WorktreeEvent {
+  type: 'worktree.created' | 'worktree.merged' | 'worktree.discarded'
+  sessionId: string
+  data: { branch: string; path: string; mergeCommit?: string }
+  timestamp: string
+}
+
+/** A tool call blocked by the command policy or workdir confinement; the tool did not run */
+export interface ToolDeniedEvent {
+  type: 'tool.denied'
+  sessionId: string
+  data: { toolName: string; toolCallId: string; args?: unknown; reason: string }
+  timestamp: string
+}
+
 export type ReefEvent =
   | SessionNewEvent
+  | SessionQueuedEvent
+  | SessionStartedEvent
   | SessionEndEvent
   | OutputEvent
   | StatusEvent
   | ToolStartEvent
   | ToolEndEvent
+  | ToolDeniedEvent
+  | ToolApprovalRequiredEvent
+  | ToolApprovalDecidedEvent
+  | UsageEvent
+  | RetryingEvent
+  | ProviderFallbackEvent
+  | WorktreeEvent
+  | FilesChangedEvent
+  | CheckpointCreatedEvent
+  | CheckpointRestoredEvent
 
 export type ReefEventType = ReefEvent['type']
 
+/** An event as broadcast, stamped with a monotonically increasing sequence number */
+export type SequencedReefEvent = ReefEvent & { seq: number }
+
 // ─── API Request / Response ───
 
 export interface SpawnRequest {
@@ -84,6 +385,25 @@ export interface SpawnRequest {
   model?: string
   backend?: Backend
   provider?: Provider
+  /** Higher runs first when the spawn queue is full (default 0) */
+  priority?: number
+  /** Run claude interactively in tmux so the session accepts follow-up messages */
+  interactive?: boolean
+  /** Provider-specific settings, e.g. `{ "script": ... }` for the mock provider */
+  providerOptions?: Record<string, unknown>
+  /** Restrict the session's tools further than the server policy */
+  policy?: ToolPolicy
+  /** Tool calls that must be approved before they run */
+  approval?: ApprovalRules
+  /** Limits on turns, tokens, cost and duration, capped by the server's ceilings */
+  budget?: SessionBudget
+  /**
+   * Providers to try in order if `provider` can't start the session; default: the server's
+   * REEF_FALLBACK chain, `[]` for none
+   */
+  fallback?: ProviderCandidate[]
+  /** `"worktree"`: run in a new git worktree and branch of the workdir's repository */
+  isolation?: 'none' | 'worktree'
 }
 
 export interface SpawnResponse {
@@ -97,12 +417,18 @@ export interface StatusResponse {
   sessions: number
   running: Record<string, unknown>
   wsClients: number
+  sseClients: number
   uptime: number
-  providers: { anthropic: boolean; openai: boolean; google: boolean }
+  /** Every registered provider and whether it can currently run sessions */
+  providers: Record<string, boolean>
 }
 
 export interface SessionListResponse {
-  sessions: SessionRow[]
+  sessions: SessionRow[] | SessionSummary[]
+  total: number
+  limit: number
+  page?: number
+  nextCursor?: string
 }
 
 export interface SessionDetailResponse {
@@ -110,9 +436,99 @@ export interface SessionDetailResponse {
   alive: boolean
 }
 
+export interface OutputLine {
+  id: number
+  text: string
+}
+
 export interface SessionOutputResponse {
   id: string
   output: string
+  /** Present when the request used after/limit/tail */
+  lines?: OutputLine[]
+  /** Pass as `after` to fetch lines appended since this response */
+  nextCursor?: number
+  hasMore?: boolean
+}
+
+export interface SessionTimelineResponse {
+  id: string
+  events: SequencedReefEvent[]
+  /** Pass as `after` to fetch events recorded since this response */
+  nextSeq: number
+  hasMore: boolean
+}
+
+export interface SessionChangesResponse {
+  id: string
+  snapshot: WorkdirSnapshot
+  files: FileChange[]
+}
+
+export interface SessionDiffResponse {
+  id: string
+  /** Unified diff, as produced by `git diff` */
+  diff: string
+}
+
+export interface CheckpointListResponse {
+  id: string
+  /** Oldest first */
+  checkpoints: Checkpoint[]
+}
+
+export interface CheckpointRestoreResponse {
+  checkpoint: Checkpoint
+  /** What the restore changed in the workdir */
+  files: FileChange[]
+}
+
+/** A session's worktree with what the session has done in it so far */
+export interface WorktreeInfo extends SessionWorktree {
+  sessionId: string
+  status: SessionStatus
+  /** Commits on the branch since `base`; absent unless active */
+  commits?: number
+  /** Uncommitted files, as `git status --porcelain` lines; absent unless active */
+  uncommitted?: string[]
+}
+
+export interface WorktreeResponse {
+  worktree: WorktreeInfo
+}
+
+export interface WorktreeListResponse {
+  worktrees: WorktreeInfo[]
+}
+
+export interface ApprovalListResponse {
+  id: string
+  /** Tool calls waiting for a decision */
+  approvals: ApprovalRequest[]
+}
+
+export type UsageGroup = 'user' | 'provider' | 'model' | 'day'
+
+/** Usage totals for one group (or overall); grouping fields are set per `groupBy` */
+export interface UsageSummary extends TokenUsage {
+  userId?: string
+  provider?: Provider
+  model?: string
+  /** UTC date, YYYY-MM-DD */
+  day?: string
+  /** Model responses counted */
+  requests: number
+  costUsd: number
+  /** Responses from models without a price, left out of costUsd */
+  unpricedRequests: number
+}
+
+export interface UsageResponse {
+  groupBy: UsageGroup[]
+  since?: string
+  until?: string
+  groups: UsageSummary[]
+  total: UsageSummary
 }
 
 export interface ErrorResponse {
@@ -152,6 +568,69 @@ export interface LoginRequest {
   password: string
 }
 
+// ━━━ Task Templates ━━━
+
+/** A `{{name}}` placeholder in a template's prompt */
+export interface TemplateVariable {
+  name: string
+  description?: string
+  /** Used when a spawn doesn't set the variable; variables without one are required */
+  default?: string
+  /** Regex the whole value must match */
+  pattern?: string
+}
+
+/** A reusable task: a prompt with variables and the settings to spawn it with */
+export interface TaskTemplate {
+  id: string
+  name: string
+  description?: string
+  /** The task, with `{{name}}` placeholders for its variables */
+  prompt: string
+  variables: TemplateVariable[]
+  provider?: Provider
+  model?: string
+  backend?: 'sdk' | 'tmux'
+  workdir?: string
+  budget?: SessionBudget
+  /** Whether every user can see and spawn it; only its owner and admins can change it */
+  shared: boolean
+  owner_id: string
+  created_at: string
+  updated_at: string
+}
+
+export interface CreateTemplateRequest {
+  name: string
+  description?: string
+  prompt: string
+  variables?: TemplateVariable[]
+  provider?: Provider
+  model?: string
+  backend?: 'sdk' | 'tmux'
+  workdir?: string
+  budget?: SessionBudget
+  shared?: boolean
+}
+
+export type UpdateTemplateRequest = Partial<CreateTemplateRequest>
+
+export interface TemplateSpawnRequest {
+  /** Values for the template's variables */
+  variables?: Record<string, string>
+  /** Overrides the template's workdir */
+  workdir?: string
+  priority?: number
+}
+
+export interface TemplateResponse {
+  template: TaskTemplate
+}
+
+export interface TemplateListResponse {
+  templates: TaskTemplate[]
+}
+
 export interface UserResponse {
   user: User
 }
@@ -171,17 +650,25 @@ export interface LoginResponse {
 // ─── WebSocket Messages ───
 
 export type WsClientMessage =
-  | { type: 'subscribe'; sessionId: string }
+  | { type: 'subscribe'; sessionId: string; sinceSeq?: number }
   | { type: 'unsubscribe'; sessionId: string }
-  | { type: 'subscribe_all' }
+  | { type: 'subscribe_all'; sinceSeq?: number }
   | { type: 'send'; sessionId: string; message: string }
+  | {
+      type: 'approve'
+      sessionId: string
+      toolCallId: string
+      approved: boolean
+      reason?: string
+    }
 
 export type WsServerMessage =
-  | ReefEvent
+  | SequencedReefEvent
   | { type: 'connected'; data: { message: string } }
-  | { type: 'subscribed'; sessionId: string }
+  | { type: 'subscribed'; sessionId: string; replayed?: number }
   | { type: 'unsubscribed'; sessionId: string }
   | { type: 'sent'; sessionId: string; data: string }
+  | { type: 'approval_recorded'; sessionId: string; toolCallId: string }
   | { type: 'error'; data: string }
 
 export type WsMessage = WsClientMessage | WsServerMessage
@@ -0,0 +1,80 @@
+/**
+ * reef-core/sse.ts — Server-Sent Events streams for clients that can't speak WebSocket
+ *
+ * Streams the same events as /ws, filtered by the same subscription rules. Each event's
+ * `seq` is sent as the SSE id, so a reconnecting client's Last-Event-ID resumes the stream.
+ */
+import type http from 'http'
+import { eventBus, type SequencedReefEvent } from './events.js'
+import { getSessionOwner } from './db.js'
+import type { AuthContext } from './auth.js'
+import { shouldDeliver, type Subscriber } from './subscriptions.js'
+
+const HEARTBEAT_MS = 15000
+
+const clients = new Map<http.ServerResponse, Subscriber>()
+
+eventBus.onReef((event: SequencedReefEvent) => {
+  if (clients.size === 0) return
+  const owner = getSessionOwner(event.sessionId)
+  for (const [res, subscriber] of clients) {
+    if (shouldDeliver(subscriber, event, owner)) writeEvent(res, event)
+  }
+})
+
+function writeEvent(res: http.ServerResponse, event: SequencedReefEvent): void {
+  res.write(`id: ${event.seq}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`)
+}
+
+/** Resume point from the Last-Event-ID header, or a lastEventId query parameter */
+function lastEventId(req: http.IncomingMessage, url: URL): number | undefined {
+  const header = req.headers['last-event-id']
+  const raw = (Array.isArray(header) ? header[0] : header) ?? url.searchParams.get('lastEventId')
+  if (!raw) return undefined
+  const seq = parseInt(raw, 10)
+  return Number.isNaN(seq) ? undefined : seq
+}
+
+/**
+ * Open an event stream on `res`. An empty `sessionIds` set streams every session the
+ * caller can see.
+ */
+export function openEventStream(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  auth: AuthContext,
+  sessionIds: Set<string>
+): void {
+  const url = new URL(req.url || '/', 'http://localhost')
+  const subscriber: Subscriber = { auth, subscriptions: sessionIds }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'Access-Control-Allow-Origin': '*',
+  })
+  res.write(': connected\n\n')
+
+  const since = lastEventId(req, url)
+  if (since !== undefined) {
+    const ownerId = auth.role === 'admin' ? undefined : auth.userId
+    for (const event of eventBus.since(since, { sessionIds: [...sessionIds], ownerId })) {
+      if (shouldDeliver(subscriber, event, getSessionOwner(event.sessionId))) {
+        writeEvent(res, event)
+      }
+    }
+  }
+
+  clients.set(res, subscriber)
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS)
+
+  req.on('close', () => {
+    clearInterval(heartbeat)
+    clients.delete(res)
+  })
+}
+
+export function getSseStats(): { clients: number } {
+  return { clients: clients.size }
+}
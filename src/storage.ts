@@ -6,18 +6,140 @@ import fs from 'fs'
 import path from 'path'
 import crypto from 'crypto'
 import type { SessionRow } from './db.js'
-import type { User, CreateUserRequest, UpdateUserRequest } from './shared-types.js'
+import type {
+  Checkpoint,
+  CreateTemplateRequest,
+  TaskTemplate,
+  UpdateTemplateRequest,
+  User,
+  CreateUserRequest,
+  UpdateUserRequest,
+  SessionSummary,
+  OutputLine,
+  ReefEvent,
+  SequencedReefEvent,
+  TokenUsage,
+  UsageGroup,
+  UsageSummary,
+} from './shared-types.js'
+
+/** Most events one getEvents() call returns, however many are asked for */
+export const MAX_EVENTS_PER_QUERY = 10000
+
+export interface SessionFilter {
+  userId?: string
+  status?: string[]
+  provider?: string
+  backend?: string
+  model?: string
+  createdAfter?: string
+  createdBefore?: string
+  /** Case-insensitive substring match on task */
+  q?: string
+  limit: number
+  /** 1-based page; ignored when cursor is set */
+  page?: number
+  /** Opaque keyset cursor from a previous page's nextCursor */
+  cursor?: string
+  /** Omit output and return output line counts instead */
+  summary?: boolean
+}
+
+export interface OutputQuery {
+  /** Return lines with id greater than this cursor */
+  after?: number
+  limit?: number
+  /** Return only the last N lines (ignores after/limit) */
+  tail?: number
+}
+
+export interface OutputPage {
+  lines: OutputLine[]
+  /** Id of the last returned line, or the input cursor if nothing new */
+  nextCursor: number
+  hasMore: boolean
+}
+
+export interface EventQuery {
+  /** Return events with seq greater than this */
+  after?: number
+  /** Restrict to these sessions (empty or missing = all) */
+  sessionIds?: string[]
+  /** Restrict to sessions owned by this user */
+  ownerId?: string
+  /** At most MAX_EVENTS_PER_QUERY */
+  limit?: number
+}
+
+/** One model response's usage; user_id is taken from the session */
+export interface UsageRecord extends TokenUsage {
+  sessionId: string
+  provider: string
+  model: string
+  costUsd?: number
+}
+
+/** A session's totals after a usage record, as checked against its budget */
+export interface SessionTotals {
+  turns: number
+  /** Input, output and cached tokens together */
+  tokens: number
+  costUsd: number
+}
+
+export interface UsageQuery {
+  groupBy: UsageGroup[]
+  /** Restrict to one user's sessions */
+  userId?: string
+  /** ISO date or timestamp, inclusive */
+  since?: string
+  /** ISO date or timestamp, exclusive */
+  until?: string
+}
+
+export interface SessionPage {
+  sessions: SessionRow[] | SessionSummary[]
+  total: number
+  nextCursor?: string
+}
 
 export interface SessionStore {
   insert(session: SessionRow): void
   get(id: string): SessionRow | undefined
   getAll(): SessionRow[]
+  getByStatus(status: SessionRow['status']): SessionRow[]
+  getWithWorktree(userId?: string): Omit<SessionRow, 'output'>[]
+  list(filter: SessionFilter): SessionPage
+  count(): number
   update(id: string, updates: Partial<SessionRow>): void
   appendOutput(id: string, line: string): void
   getOutput(id: string): string[]
+  getOutputPage(id: string, query: OutputQuery): OutputPage
+  getOutputOffset(id: string): number
+  appendCapturedOutput(id: string, lines: string[], offset: number): void
+  getOwner(id: string): string | undefined
+  appendEvent(event: ReefEvent): number
+  getConversation(id: string): unknown[] | undefined
+  saveConversation(id: string, messages: unknown[]): void
+  getEvents(query: EventQuery): SequencedReefEvent[]
+  pruneEvents(before: string | undefined, keep: number): number
+  addCheckpoint(checkpoint: Omit<Checkpoint, 'id'>): Checkpoint
+  getCheckpoints(sessionId: string): Checkpoint[]
+  getCheckpoint(id: number): Checkpoint | undefined
+  recordUsage(record: UsageRecord): SessionTotals | undefined
+  aggregateUsage(query: UsageQuery): UsageSummary[]
   delete(id: string): void
 }
 
+export interface TemplateStore {
+  insert(ownerId: string, template: CreateTemplateRequest): TaskTemplate
+  get(id: string): TaskTemplate | undefined
+  /** Templates a user may see: their own and shared ones (all of them without a user) */
+  list(userId?: string): TaskTemplate[]
+  update(id: string, updates: UpdateTemplateRequest): TaskTemplate | undefined
+  delete(id: string): boolean
+}
+
 export interface UserStore {
   insert(user: CreateUserRequest): User
   get(id: string): User | undefined
@@ -37,6 +159,61 @@ interface SessionDbRow {
   provider: string | null
   model: string | null
   tmux_session: string | null
+  user_id: string | null
+  workdir: string | null
+  priority: number
+  output_offset: number
+  interactive: number
+  sdk_session_file: string | null
+  provider_options: string | null
+  tool_policy: string | null
+  approval_rules: string | null
+  budget: string | null
+  started_at: string | null
+  turns: number
+  candidates: string | null
+  candidate: number | null
+  worktree: string | null
+  snapshot: string | null
+  error: string | null
+  input_tokens: number
+  output_tokens: number
+  cached_tokens: number
+  cost_usd: number
+  created_at: string
+  updated_at: string
+}
+
+interface EventDbRow {
+  seq: number
+  session_id: string
+  type: string
+  data: string
+  timestamp: string
+}
+
+interface CheckpointDbRow {
+  id: number
+  session_id: string
+  reason: string
+  detail: string | null
+  tree: string
+  created_at: string
+}
+
+interface TemplateDbRow {
+  id: string
+  owner_id: string
+  name: string
+  description: string | null
+  prompt: string
+  variables: string
+  provider: string | null
+  model: string | null
+  backend: string | null
+  workdir: string | null
+  budget: string | null
+  shared: number
   created_at: string
   updated_at: string
 }
@@ -53,6 +230,15 @@ interface UserDbRow {
   last_login: string | null
 }
 
+function encodeCursor(createdAt: string, id: string): string {
+  return Buffer.from(`${createdAt}|${id}`).toString('base64url')
+}
+
+function decodeCursor(cursor: string): { createdAt: string; id: string } | undefined {
+  const [createdAt, id] = Buffer.from(cursor, 'base64url').toString().split('|')
+  return createdAt && id ? { createdAt, id } : undefined
+}
+
 export class SqliteSessionStore implements SessionStore {
   private db: Database.Database
 
@@ -74,6 +260,27 @@ export class SqliteSessionStore implements SessionStore {
         provider TEXT,
         model TEXT,
         tmux_session TEXT,
+        user_id TEXT,
+        workdir TEXT,
+        priority INTEGER NOT NULL DEFAULT 0,
+        output_offset INTEGER NOT NULL DEFAULT 0,
+        interactive INTEGER NOT NULL DEFAULT 0,
+        sdk_session_file TEXT,
+        provider_options TEXT,
+        tool_policy TEXT,
+        approval_rules TEXT,
+        budget TEXT,
+        started_at TEXT,
+        turns INTEGER NOT NULL DEFAULT 0,
+        candidates TEXT,
+        candidate INTEGER,
+        worktree TEXT,
+        snapshot TEXT,
+        error TEXT,
+        input_tokens INTEGER NOT NULL DEFAULT 0,
+        output_tokens INTEGER NOT NULL DEFAULT 0,
+        cached_tokens INTEGER NOT NULL DEFAULT 0,
+        cost_usd REAL NOT NULL DEFAULT 0,
         created_at TEXT NOT NULL,
         updated_at TEXT NOT NULL
       );
@@ -83,6 +290,43 @@ export class SqliteSessionStore implements SessionStore {
         content TEXT NOT NULL
       );
       CREATE INDEX IF NOT EXISTS idx_output_session ON output_lines(session_id);
+      CREATE TABLE IF NOT EXISTS events (
+        seq INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_id TEXT NOT NULL,
+        type TEXT NOT NULL,
+        data TEXT NOT NULL,
+        timestamp TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_events_session ON events(session_id, seq);
+      CREATE TABLE IF NOT EXISTS conversations (
+        session_id TEXT PRIMARY KEY REFERENCES sessions(id) ON DELETE CASCADE,
+        messages TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS checkpoints (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+        reason TEXT NOT NULL,
+        detail TEXT,
+        tree TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_checkpoints_session ON checkpoints(session_id, id);
+      -- No foreign key: usage outlives deleted sessions
+      CREATE TABLE IF NOT EXISTS usage (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_id TEXT NOT NULL,
+        user_id TEXT,
+        provider TEXT NOT NULL,
+        model TEXT NOT NULL,
+        input_tokens INTEGER NOT NULL,
+        output_tokens INTEGER NOT NULL,
+        cached_tokens INTEGER NOT NULL,
+        cost_usd REAL,
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_usage_created ON usage(created_at);
+      CREATE INDEX IF NOT EXISTS idx_usage_user ON usage(user_id, created_at);
       
       CREATE TABLE IF NOT EXISTS users (
         id TEXT PRIMARY KEY,
@@ -97,13 +341,71 @@ export class SqliteSessionStore implements SessionStore {
       );
       CREATE INDEX IF NOT EXISTS idx_users_email ON users(email);
       CREATE INDEX IF NOT EXISTS idx_users_active ON users(active);
+
+      CREATE TABLE IF NOT EXISTS templates (
+        id TEXT PRIMARY KEY,
+        owner_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        description TEXT,
+        prompt TEXT NOT NULL,
+        variables TEXT NOT NULL,
+        provider TEXT,
+        model TEXT,
+        backend TEXT,
+        workdir TEXT,
+        budget TEXT,
+        shared INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_templates_owner ON templates(owner_id);
+    `)
+
+    // Columns added after the initial schema — existing databases need them backfilled
+    this.addColumnIfMissing('sessions', 'user_id', 'TEXT')
+    this.addColumnIfMissing('sessions', 'workdir', 'TEXT')
+    this.addColumnIfMissing('sessions', 'priority', 'INTEGER NOT NULL DEFAULT 0')
+    // Bytes of the tmux pane log already captured into output_lines
+    this.addColumnIfMissing('sessions', 'output_offset', 'INTEGER NOT NULL DEFAULT 0')
+    this.addColumnIfMissing('sessions', 'interactive', 'INTEGER NOT NULL DEFAULT 0')
+    this.addColumnIfMissing('sessions', 'sdk_session_file', 'TEXT')
+    this.addColumnIfMissing('sessions', 'provider_options', 'TEXT')
+    this.addColumnIfMissing('sessions', 'tool_policy', 'TEXT')
+    this.addColumnIfMissing('sessions', 'approval_rules', 'TEXT')
+    this.addColumnIfMissing('sessions', 'budget', 'TEXT')
+    this.addColumnIfMissing('sessions', 'started_at', 'TEXT')
+    this.addColumnIfMissing('sessions', 'turns', 'INTEGER NOT NULL DEFAULT 0')
+    this.addColumnIfMissing('sessions', 'candidates', 'TEXT')
+    this.addColumnIfMissing('sessions', 'candidate', 'INTEGER')
+    this.addColumnIfMissing('sessions', 'worktree', 'TEXT')
+    this.addColumnIfMissing('sessions', 'snapshot', 'TEXT')
+    this.addColumnIfMissing('sessions', 'error', 'TEXT')
+    this.addColumnIfMissing('sessions', 'input_tokens', 'INTEGER NOT NULL DEFAULT 0')
+    this.addColumnIfMissing('sessions', 'output_tokens', 'INTEGER NOT NULL DEFAULT 0')
+    this.addColumnIfMissing('sessions', 'cached_tokens', 'INTEGER NOT NULL DEFAULT 0')
+    this.addColumnIfMissing('sessions', 'cost_usd', 'REAL NOT NULL DEFAULT 0')
+    this.db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_sessions_user ON sessions(user_id);
+      CREATE INDEX IF NOT EXISTS idx_sessions_status ON sessions(status);
+      CREATE INDEX IF NOT EXISTS idx_sessions_created ON sessions(created_at, id);
+      CREATE INDEX IF NOT EXISTS idx_sessions_user_created ON sessions(user_id, created_at, id);
+      CREATE INDEX IF NOT EXISTS idx_sessions_provider ON sessions(provider);
+      CREATE INDEX IF NOT EXISTS idx_sessions_backend ON sessions(backend);
+      CREATE INDEX IF NOT EXISTS idx_sessions_model ON sessions(model);
     `)
   }
 
+  private addColumnIfMissing(table: string, column: string, definition: string): void {
+    const columns = this.db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]
+    if (!columns.some((c) => c.name === column)) {
+      this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`)
+    }
+  }
+
   insert(session: SessionRow): void {
     const stmt = this.db.prepare(`
-      INSERT INTO sessions (id, task, status, backend, provider, model, tmux_session, created_at, updated_at)
-      VALUES (@id, @task, @status, @backend, @provider, @model, @tmux_session, @created_at, @updated_at)
+      INSERT INTO sessions (id, task, status, backend, provider, model, tmux_session, user_id, workdir, priority, interactive, sdk_session_file, provider_options, tool_policy, approval_rules, budget, started_at, candidates, candidate, worktree, created_at, updated_at)
+      VALUES (@id, @task, @status, @backend, @provider, @model, @tmux_session, @user_id, @workdir, @priority, @interactive, @sdk_session_file, @provider_options, @tool_policy, @approval_rules, @budget, @started_at, @candidates, @candidate, @worktree, @created_at, @updated_at)
     `)
     stmt.run({
       id: session.id,
@@ -113,6 +415,19 @@ export class SqliteSessionStore implements SessionStore {
       provider: session.provider ?? null,
       model: session.model ?? null,
       tmux_session: session.tmux_session ?? null,
+      user_id: session.user_id ?? null,
+      workdir: session.workdir ?? null,
+      priority: session.priority ?? 0,
+      interactive: session.interactive ? 1 : 0,
+      sdk_session_file: session.sdk_session_file ?? null,
+      provider_options: session.provider_options ? JSON.stringify(session.provider_options) : null,
+      tool_policy: session.tool_policy ? JSON.stringify(session.tool_policy) : null,
+      approval_rules: session.approval_rules ? JSON.stringify(session.approval_rules) : null,
+      budget: session.budget ? JSON.stringify(session.budget) : null,
+      started_at: session.started_at ?? null,
+      candidates: session.candidates ? JSON.stringify(session.candidates) : null,
+      candidate: session.candidate ?? null,
+      worktree: session.worktree ? JSON.stringify(session.worktree) : null,
       created_at: session.created_at,
       updated_at: session.updated_at,
     })
@@ -143,8 +458,129 @@ export class SqliteSessionStore implements SessionStore {
     return rows.map((r) => this.hydrate(r))
   }
 
+  getByStatus(status: SessionRow['status']): SessionRow[] {
+    const rows = this.db
+      .prepare('SELECT * FROM sessions WHERE status = ? ORDER BY priority DESC, created_at ASC')
+      .all(status) as SessionDbRow[]
+    return rows.map((r) => this.hydrate(r))
+  }
+
+  /** Sessions that were given a worktree, newest first, without output */
+  getWithWorktree(userId?: string): Omit<SessionRow, 'output'>[] {
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM sessions WHERE worktree IS NOT NULL
+         ${userId ? 'AND user_id = @userId' : ''} ORDER BY created_at DESC`
+      )
+      .all({ userId }) as SessionDbRow[]
+    return rows.map((r) => this.toSession(r))
+  }
+
+  list(filter: SessionFilter): SessionPage {
+    const where: string[] = []
+    const params: Record<string, unknown> = {}
+
+    if (filter.userId) {
+      where.push('user_id = @userId')
+      params.userId = filter.userId
+    }
+    if (filter.status && filter.status.length > 0) {
+      const keys = filter.status.map((status, i) => {
+        params[`status${i}`] = status
+        return `@status${i}`
+      })
+      where.push(`status IN (${keys.join(', ')})`)
+    }
+    for (const key of ['provider', 'backend', 'model'] as const) {
+      if (filter[key]) {
+        where.push(`${key} = @${key}`)
+        params[key] = filter[key]
+      }
+    }
+    if (filter.createdAfter) {
+      where.push('created_at >= @createdAfter')
+      params.createdAfter = filter.createdAfter
+    }
+    if (filter.createdBefore) {
+      where.push('created_at < @createdBefore')
+      params.createdBefore = filter.createdBefore
+    }
+    if (filter.q) {
+      where.push("task LIKE @q ESCAPE '\\'")
+      params.q = `%${filter.q.replace(/[\\%_]/g, (c) => `\\${c}`)}%`
+    }
+
+    const whereSql = (clauses: string[]) =>
+      clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : ''
+
+    const total = (
+      this.db.prepare(`SELECT COUNT(*) as count FROM sessions ${whereSql(where)}`).get(params) as {
+        count: number
+      }
+    ).count
+
+    // Keyset pagination on (created_at, id) when a cursor is given, offset otherwise
+    const pageWhere = [...where]
+    let offset = 0
+    const cursor = filter.cursor ? decodeCursor(filter.cursor) : undefined
+    if (cursor) {
+      pageWhere.push(
+        '(created_at < @cursorCreated OR (created_at = @cursorCreated AND id < @cursorId))'
+      )
+      params.cursorCreated = cursor.createdAt
+      params.cursorId = cursor.id
+    } else if (filter.page && filter.page > 1) {
+      offset = (filter.page - 1) * filter.limit
+    }
+
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM sessions ${whereSql(pageWhere)}
+         ORDER BY created_at DESC, id DESC LIMIT @limit OFFSET @offset`
+      )
+      .all({ ...params, limit: filter.limit + 1, offset }) as SessionDbRow[]
+
+    const hasMore = rows.length > filter.limit
+    const pageRows = rows.slice(0, filter.limit)
+    const last = pageRows[pageRows.length - 1]
+    const nextCursor = hasMore && last ? encodeCursor(last.created_at, last.id) : undefined
+
+    if (!filter.summary) {
+      return { sessions: pageRows.map((r) => this.hydrate(r)), total, nextCursor }
+    }
+
+    const counts = this.countOutput(pageRows.map((r) => r.id))
+    const sessions = pageRows.map((r) => ({
+      ...this.toSession(r),
+      output_lines: counts.get(r.id) ?? 0,
+    }))
+    return { sessions, total, nextCursor }
+  }
+
+  count(): number {
+    return (this.db.prepare('SELECT COUNT(*) as count FROM sessions').get() as { count: number })
+      .count
+  }
+
   update(id: string, updates: Partial<SessionRow>): void {
-    const allowed = ['task', 'status', 'backend', 'provider', 'model', 'tmux_session'] as const
+    const allowed = [
+      'task',
+      'status',
+      'backend',
+      'provider',
+      'model',
+      'tmux_session',
+      'workdir',
+      'priority',
+      'sdk_session_file',
+      'started_at',
+      'candidate',
+      'worktree',
+      'snapshot',
+      'error',
+    ] as const
+    // Structured fields are stored as JSON text
+    const JSON_COLUMNS = new Set<string>(['worktree', 'snapshot', 'error'])
     const sets: string[] = ['updated_at = @updated_at']
     const params: Record<string, unknown> = {
       id,
@@ -152,8 +588,9 @@ export class SqliteSessionStore implements SessionStore {
     }
     for (const key of allowed) {
       if (key in updates) {
+        const value = (updates as Record<string, unknown>)[key]
         sets.push(`${key} = @${key}`)
-        params[key] = (updates as Record<string, unknown>)[key] ?? null
+        params[key] = JSON_COLUMNS.has(key) && value ? JSON.stringify(value) : (value ?? null)
       }
     }
     this.db.prepare(`UPDATE sessions SET ${sets.join(', ')} WHERE id = @id`).run(params)
@@ -173,15 +610,262 @@ export class SqliteSessionStore implements SessionStore {
     return rows.map((r) => r.content)
   }
 
+  getOutputPage(id: string, query: OutputQuery): OutputPage {
+    if (query.tail !== undefined) {
+      const rows = this.db
+        .prepare(
+          'SELECT id, content FROM output_lines WHERE session_id = ? ORDER BY id DESC LIMIT ?'
+        )
+        .all(id, query.tail) as { id: number; content: string }[]
+      const lines = rows.reverse().map((r) => ({ id: r.id, text: r.content }))
+      return { lines, nextCursor: lines[lines.length - 1]?.id ?? 0, hasMore: false }
+    }
+
+    const after = query.after ?? 0
+    // Fetch one extra row to tell whether more lines follow; LIMIT -1 means no limit
+    const rows = this.db
+      .prepare(
+        'SELECT id, content FROM output_lines WHERE session_id = ? AND id > ? ORDER BY id LIMIT ?'
+      )
+      .all(id, after, query.limit !== undefined ? query.limit + 1 : -1) as {
+      id: number
+      content: string
+    }[]
+    const hasMore = query.limit !== undefined && rows.length > query.limit
+    const lines = (hasMore ? rows.slice(0, query.limit) : rows).map((r) => ({
+      id: r.id,
+      text: r.content,
+    }))
+    return { lines, nextCursor: lines[lines.length - 1]?.id ?? after, hasMore }
+  }
+
+  getOutputOffset(id: string): number {
+    const row = this.db.prepare('SELECT output_offset FROM sessions WHERE id = ?').get(id) as
+      | { output_offset: number }
+      | undefined
+    return row?.output_offset ?? 0
+  }
+
+  appendCapturedOutput(id: string, lines: string[], offset: number): void {
+    const insertLine = this.db.prepare(
+      'INSERT INTO output_lines (session_id, content) VALUES (?, ?)'
+    )
+    const updateOffset = this.db.prepare(
+      'UPDATE sessions SET output_offset = ?, updated_at = ? WHERE id = ?'
+    )
+    this.db.transaction(() => {
+      for (const line of lines) insertLine.run(id, line)
+      updateOffset.run(offset, new Date().toISOString(), id)
+    })()
+  }
+
+  getOwner(id: string): string | undefined {
+    const row = this.db.prepare('SELECT user_id FROM sessions WHERE id = ?').get(id) as
+      | { user_id: string | null }
+      | undefined
+    return row?.user_id ?? undefined
+  }
+
+  appendEvent(event: ReefEvent): number {
+    const result = this.db
+      .prepare('INSERT INTO events (session_id, type, data, timestamp) VALUES (?, ?, ?, ?)')
+      .run(event.sessionId, event.type, JSON.stringify(event.data), event.timestamp)
+    return Number(result.lastInsertRowid)
+  }
+
+  getEvents(query: EventQuery): SequencedReefEvent[] {
+    const params: unknown[] = [query.after ?? 0]
+    let sessionSql = ''
+    if (query.sessionIds && query.sessionIds.length > 0) {
+      sessionSql = `AND session_id IN (${query.sessionIds.map(() => '?').join(', ')})`
+      params.push(...query.sessionIds)
+    }
+    if (query.ownerId !== undefined) {
+      sessionSql += ' AND session_id IN (SELECT id FROM sessions WHERE user_id = ?)'
+      params.push(query.ownerId)
+    }
+    params.push(Math.min(query.limit ?? MAX_EVENTS_PER_QUERY, MAX_EVENTS_PER_QUERY))
+    const rows = this.db
+      .prepare(`SELECT * FROM events WHERE seq > ? ${sessionSql} ORDER BY seq LIMIT ?`)
+      .all(...params) as EventDbRow[]
+    return rows.map(
+      (r) =>
+        ({
+          type: r.type,
+          sessionId: r.session_id,
+          data: JSON.parse(r.data),
+          timestamp: r.timestamp,
+          seq: r.seq,
+        }) as SequencedReefEvent
+    )
+  }
+
+  /**
+   * Delete events older than `before` (an ISO timestamp), then any beyond the newest `keep`
+   * sequence numbers (0 = no row cap). Returns the number deleted.
+   */
+  pruneEvents(before: string | undefined, keep: number): number {
+    let deleted = 0
+    if (before) {
+      deleted += this.db.prepare('DELETE FROM events WHERE timestamp < ?').run(before).changes
+    }
+    if (keep > 0) {
+      deleted += this.db
+        .prepare('DELETE FROM events WHERE seq <= (SELECT MAX(seq) FROM events) - ?')
+        .run(keep).changes
+    }
+    return deleted
+  }
+
+  addCheckpoint(checkpoint: Omit<Checkpoint, 'id'>): Checkpoint {
+    const result = this.db
+      .prepare(
+        `INSERT INTO checkpoints (session_id, reason, detail, tree, created_at)
+         VALUES (?, ?, ?, ?, ?)`
+      )
+      .run(
+        checkpoint.sessionId,
+        checkpoint.reason,
+        checkpoint.detail ?? null,
+        checkpoint.tree,
+        checkpoint.createdAt
+      )
+    return { id: Number(result.lastInsertRowid), ...checkpoint }
+  }
+
+  getCheckpoints(sessionId: string): Checkpoint[] {
+    const rows = this.db
+      .prepare('SELECT * FROM checkpoints WHERE session_id = ? ORDER BY id')
+      .all(sessionId) as CheckpointDbRow[]
+    return rows.map((r) => this.toCheckpoint(r))
+  }
+
+  getCheckpoint(id: number): Checkpoint | undefined {
+    const row = this.db.prepare('SELECT * FROM checkpoints WHERE id = ?').get(id) as
+      | CheckpointDbRow
+      | undefined
+    return row ? this.toCheckpoint(row) : undefined
+  }
+
+  /** Store a usage record and add it to the session's totals, returning the new totals */
+  recordUsage(record: UsageRecord): SessionTotals | undefined {
+    const now = new Date().toISOString()
+    const insert = this.db.prepare(`
+      INSERT INTO usage (session_id, user_id, provider, model, input_tokens, output_tokens, cached_tokens, cost_usd, created_at)
+      VALUES (@sessionId, (SELECT user_id FROM sessions WHERE id = @sessionId), @provider, @model,
+        @inputTokens, @outputTokens, @cachedTokens, @costUsd, @now)
+    `)
+    const addTotals = this.db.prepare(`
+      UPDATE sessions SET turns = turns + 1, input_tokens = input_tokens + @inputTokens,
+        output_tokens = output_tokens + @outputTokens, cached_tokens = cached_tokens + @cachedTokens,
+        cost_usd = cost_usd + COALESCE(@costUsd, 0)
+      WHERE id = @sessionId
+      RETURNING turns, input_tokens + output_tokens + cached_tokens AS tokens, cost_usd AS costUsd
+    `)
+    const params = { ...record, costUsd: record.costUsd ?? null, now }
+    return this.db.transaction(() => {
+      insert.run(params)
+      return addTotals.get(params) as SessionTotals | undefined
+    })()
+  }
+
+  aggregateUsage(query: UsageQuery): UsageSummary[] {
+    const columns: Record<UsageGroup, string> = {
+      user: 'user_id AS userId',
+      provider: 'provider',
+      model: 'model',
+      day: 'substr(created_at, 1, 10) AS day',
+    }
+    const groups = query.groupBy.map((group) => columns[group])
+    const keys = query.groupBy.map((group) => (group === 'user' ? 'userId' : group))
+
+    const where: string[] = []
+    const params: unknown[] = []
+    if (query.userId) {
+      where.push('user_id = ?')
+      params.push(query.userId)
+    }
+    if (query.since) {
+      where.push('created_at >= ?')
+      params.push(query.since)
+    }
+    if (query.until) {
+      where.push('created_at < ?')
+      params.push(query.until)
+    }
+
+    const rows = this.db
+      .prepare(
+        `SELECT ${[...groups, ''].join(', ')}
+           COUNT(*) AS requests,
+           SUM(input_tokens) AS inputTokens,
+           SUM(output_tokens) AS outputTokens,
+           SUM(cached_tokens) AS cachedTokens,
+           COALESCE(SUM(cost_usd), 0) AS costUsd,
+           COUNT(*) - COUNT(cost_usd) AS unpricedRequests
+         FROM usage
+         ${where.length > 0 ? `WHERE ${where.join(' AND ')}` : ''}
+         ${keys.length > 0 ? `GROUP BY ${keys.join(', ')} ORDER BY ${keys.join(', ')}` : ''}`
+      )
+      .all(...params) as UsageSummary[]
+    // An aggregate over no rows still returns one row of NULL sums
+    return rows
+      .filter((row) => row.requests > 0)
+      .map((row) => ({ ...row, userId: row.userId ?? undefined }))
+  }
+
+  getConversation(id: string): unknown[] | undefined {
+    const row = this.db
+      .prepare('SELECT messages FROM conversations WHERE session_id = ?')
+      .get(id) as { messages: string } | undefined
+    return row ? JSON.parse(row.messages) : undefined
+  }
+
+  saveConversation(id: string, messages: unknown[]): void {
+    this.db
+      .prepare(
+        `INSERT INTO conversations (session_id, messages, updated_at) VALUES (?, ?, ?)
+         ON CONFLICT(session_id) DO UPDATE SET messages = excluded.messages, updated_at = excluded.updated_at`
+      )
+      .run(id, JSON.stringify(messages), new Date().toISOString())
+  }
+
   delete(id: string): void {
     this.db.prepare('DELETE FROM sessions WHERE id = ?').run(id)
+    this.db.prepare('DELETE FROM events WHERE session_id = ?').run(id)
   }
 
   close(): void {
     this.db.close()
   }
 
+  private toCheckpoint(row: CheckpointDbRow): Checkpoint {
+    return {
+      id: row.id,
+      sessionId: row.session_id,
+      reason: row.reason as Checkpoint['reason'],
+      detail: row.detail ?? undefined,
+      tree: row.tree,
+      createdAt: row.created_at,
+    }
+  }
+
+  private countOutput(ids: string[]): Map<string, number> {
+    if (ids.length === 0) return new Map()
+    const rows = this.db
+      .prepare(
+        `SELECT session_id, COUNT(*) as count FROM output_lines
+         WHERE session_id IN (${ids.map(() => '?').join(', ')}) GROUP BY session_id`
+      )
+      .all(...ids) as { session_id: string; count: number }[]
+    return new Map(rows.map((r) => [r.session_id, r.count]))
+  }
+
   private hydrate(row: SessionDbRow): SessionRow {
+    return { ...this.toSession(row), output: this.getOutput(row.id) }
+  }
+
+  private toSession(row: SessionDbRow): Omit<SessionRow, 'output'> {
     return {
       id: row.id,
       task: row.task,
@@ -190,9 +874,28 @@ export class SqliteSessionStore implements SessionStore {
       provider: (row.provider as SessionRow['provider']) ?? undefined,
       model: row.model ?? undefined,
       tmux_session: row.tmux_session ?? undefined,
+      user_id: row.user_id ?? undefined,
+      workdir: row.workdir ?? undefined,
+      priority: row.priority,
+      interactive: row.interactive === 1,
+      sdk_session_file: row.sdk_session_file ?? undefined,
+      provider_options: row.provider_options ? JSON.parse(row.provider_options) : undefined,
+      tool_policy: row.tool_policy ? JSON.parse(row.tool_policy) : undefined,
+      approval_rules: row.approval_rules ? JSON.parse(row.approval_rules) : undefined,
+      budget: row.budget ? JSON.parse(row.budget) : undefined,
+      started_at: row.started_at ?? undefined,
+      turns: row.turns,
+      candidates: row.candidates ? JSON.parse(row.candidates) : undefined,
+      candidate: row.candidate ?? undefined,
+      worktree: row.worktree ? JSON.parse(row.worktree) : undefined,
+      snapshot: row.snapshot ? JSON.parse(row.snapshot) : undefined,
+      error: row.error ? JSON.parse(row.error) : undefined,
+      input_tokens: row.input_tokens,
+      output_tokens: row.output_tokens,
+      cached_tokens: row.cached_tokens,
+      cost_usd: row.cost_usd,
       created_at: row.created_at,
       updated_at: row.updated_at,
-      output: this.getOutput(row.id),
     }
   }
 }
@@ -338,3 +1041,100 @@ export class SqliteUserStore implements UserStore {
     this.db.close()
   }
 }
+
+export class SqliteTemplateStore implements TemplateStore {
+  private db: Database.Database
+
+  constructor(dbPath: string) {
+    fs.mkdirSync(path.dirname(dbPath), { recursive: true })
+    this.db = new Database(dbPath)
+    this.db.pragma('journal_mode = WAL')
+    // Note: Migration is handled by SqliteSessionStore
+  }
+
+  private hydrate(row: TemplateDbRow): TaskTemplate {
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description ?? undefined,
+      prompt: row.prompt,
+      variables: JSON.parse(row.variables),
+      provider: row.provider ?? undefined,
+      model: row.model ?? undefined,
+      backend: (row.backend as TaskTemplate['backend']) ?? undefined,
+      workdir: row.workdir ?? undefined,
+      budget: row.budget ? JSON.parse(row.budget) : undefined,
+      shared: row.shared === 1,
+      owner_id: row.owner_id,
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+    }
+  }
+
+  private params(template: CreateTemplateRequest): Record<string, unknown> {
+    return {
+      name: template.name,
+      description: template.description ?? null,
+      prompt: template.prompt,
+      variables: JSON.stringify(template.variables ?? []),
+      provider: template.provider ?? null,
+      model: template.model ?? null,
+      backend: template.backend ?? null,
+      workdir: template.workdir ?? null,
+      budget: template.budget ? JSON.stringify(template.budget) : null,
+      shared: template.shared ? 1 : 0,
+    }
+  }
+
+  insert(ownerId: string, template: CreateTemplateRequest): TaskTemplate {
+    const id = crypto.randomUUID()
+    const now = new Date().toISOString()
+    this.db
+      .prepare(
+        `INSERT INTO templates (id, owner_id, name, description, prompt, variables, provider, model, backend, workdir, budget, shared, created_at, updated_at)
+         VALUES (@id, @owner_id, @name, @description, @prompt, @variables, @provider, @model, @backend, @workdir, @budget, @shared, @now, @now)`
+      )
+      .run({ id, owner_id: ownerId, now, ...this.params(template) })
+    return this.get(id)!
+  }
+
+  get(id: string): TaskTemplate | undefined {
+    const row = this.db.prepare('SELECT * FROM templates WHERE id = ?').get(id) as
+      | TemplateDbRow
+      | undefined
+    return row ? this.hydrate(row) : undefined
+  }
+
+  list(userId?: string): TaskTemplate[] {
+    const rows = (
+      userId
+        ? this.db
+            .prepare('SELECT * FROM templates WHERE owner_id = ? OR shared = 1 ORDER BY name')
+            .all(userId)
+        : this.db.prepare('SELECT * FROM templates ORDER BY name').all()
+    ) as TemplateDbRow[]
+    return rows.map((r) => this.hydrate(r))
+  }
+
+  update(id: string, updates: UpdateTemplateRequest): TaskTemplate | undefined {
+    const template = this.get(id)
+    if (!template) return undefined
+    this.db
+      .prepare(
+        `UPDATE templates SET name = @name, description = @description, prompt = @prompt,
+           variables = @variables, provider = @provider, model = @model, backend = @backend,
+           workdir = @workdir, budget = @budget, shared = @shared, updated_at = @now
+         WHERE id = @id`
+      )
+      .run({ id, now: new Date().toISOString(), ...this.params({ ...template, ...updates }) })
+    return this.get(id)
+  }
+
+  delete(id: string): boolean {
+    return this.db.prepare('DELETE FROM templates WHERE id = ?').run(id).changes > 0
+  }
+
+  close(): void {
+    this.db.close()
+  }
+}
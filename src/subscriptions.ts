@@ -0,0 +1,23 @@
+/**
+ * reef-core/subscriptions.ts — Event delivery rules shared by the WebSocket and SSE streams
+ */
+import { canAccessSession, type AuthContext } from './auth.js'
+import type { ReefEvent } from './shared-types.js'
+
+export interface Subscriber {
+  auth: AuthContext
+  subscriptions: Set<string> // sessionIds, empty = all
+}
+
+/**
+ * Whether an event should reach a subscriber: the caller must be allowed to see the
+ * session, and the session must be in its subscription set (or the set is empty).
+ */
+export function shouldDeliver(
+  subscriber: Subscriber,
+  event: ReefEvent,
+  ownerId: string | undefined
+): boolean {
+  if (!canAccessSession(subscriber.auth, ownerId)) return false
+  return subscriber.subscriptions.size === 0 || subscriber.subscriptions.has(event.sessionId)
+}
@@ -0,0 +1,38 @@
+/**
+ * reef-core/template-db.ts — Task template database operations
+ */
+import path from 'path'
+import { SqliteTemplateStore } from './storage.js'
+import type { CreateTemplateRequest, TaskTemplate, UpdateTemplateRequest } from './shared-types.js'
+
+const DATA_DIR = process.env.REEF_DATA_DIR || path.join(process.cwd(), 'data')
+const DB_PATH = process.env.REEF_DB_PATH || path.join(DATA_DIR, 'reef.db')
+
+const store = new SqliteTemplateStore(DB_PATH)
+
+export function createTemplate(ownerId: string, template: CreateTemplateRequest): TaskTemplate {
+  return store.insert(ownerId, template)
+}
+
+export function getTemplate(id: string): TaskTemplate | undefined {
+  return store.get(id)
+}
+
+export function listTemplates(userId?: string): TaskTemplate[] {
+  return store.list(userId)
+}
+
+export function updateTemplate(
+  id: string,
+  updates: UpdateTemplateRequest
+): TaskTemplate | undefined {
+  return store.update(id, updates)
+}
+
+export function deleteTemplate(id: string): boolean {
+  return store.delete(id)
+}
+
+export function closeTemplateDatabase(): void {
+  store.close()
+}
@@ -0,0 +1,117 @@
+/**
+ * reef-core/templates.ts — Task templates: validation and prompt rendering
+ *
+ * A template's prompt refers to its variables as `{{name}}`. Spawning a template fills
+ * them from the request, falling back to each variable's default; the result is the
+ * session's task. Templates are stored per user (see template-db.ts) and can be shared.
+ */
+import type { CreateTemplateRequest, TaskTemplate, TemplateVariable } from './shared-types.js'
+import { hasProvider } from './providers/index.js'
+import { checkWorkdir } from './policy.js'
+import { validateBudget } from './budget.js'
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z_][\w-]*)\s*\}\}/g
+const VARIABLE_NAME = /^[A-Za-z_][\w-]*$/
+
+function validateVariable(variable: TemplateVariable): string | undefined {
+  if (typeof variable !== 'object' || variable === null) return 'variables must be objects'
+  if (typeof variable.name !== 'string' || !VARIABLE_NAME.test(variable.name)) {
+    return `invalid variable name: ${String(variable.name)}`
+  }
+  for (const field of ['description', 'default', 'pattern'] as const) {
+    if (variable[field] !== undefined && typeof variable[field] !== 'string') {
+      return `"${field}" of variable ${variable.name} must be a string`
+    }
+  }
+  if (variable.pattern !== undefined) {
+    try {
+      new RegExp(variable.pattern)
+    } catch (err) {
+      return `invalid pattern for variable ${variable.name}: ${(err as Error).message}`
+    }
+    if (variable.default !== undefined && !matches(variable.pattern, variable.default)) {
+      return `default of variable ${variable.name} doesn't match its pattern`
+    }
+  }
+  return undefined
+}
+
+function matches(pattern: string, value: string): boolean {
+  return new RegExp(`^(?:${pattern})$`).test(value)
+}
+
+/** Check a template as it would be stored; returns an error message if it is invalid */
+export function validateTemplate(template: CreateTemplateRequest): string | undefined {
+  if (typeof template.name !== 'string' || !template.name.trim()) return 'name is required'
+  if (typeof template.prompt !== 'string' || !template.prompt.trim()) return 'prompt is required'
+  if (template.description != null && typeof template.description !== 'string') {
+    return 'description must be a string'
+  }
+
+  const variables = template.variables ?? []
+  if (!Array.isArray(variables)) return 'variables must be an array'
+  const names = new Set<string>()
+  for (const variable of variables) {
+    const error = validateVariable(variable)
+    if (error) return error
+    if (names.has(variable.name)) return `duplicate variable: ${variable.name}`
+    names.add(variable.name)
+  }
+  for (const [, name] of template.prompt.matchAll(PLACEHOLDER)) {
+    if (!names.has(name)) return `prompt uses undeclared variable: ${name}`
+  }
+
+  if (template.provider != null && !hasProvider(template.provider)) {
+    return `unknown provider: ${template.provider}`
+  }
+  if (template.model != null && typeof template.model !== 'string') return 'model must be a string'
+  if (template.backend != null && template.backend !== 'sdk' && template.backend !== 'tmux') {
+    return 'backend must be "sdk" or "tmux"'
+  }
+  if (template.workdir != null) {
+    if (typeof template.workdir !== 'string') return 'workdir must be a string'
+    const workdirError = checkWorkdir(template.workdir)
+    if (workdirError) return workdirError
+  }
+  if (template.budget != null) {
+    const budgetError = validateBudget(template.budget)
+    if (budgetError) return budgetError
+  }
+  if (template.shared !== undefined && typeof template.shared !== 'boolean') {
+    return 'shared must be a boolean'
+  }
+  return undefined
+}
+
+/**
+ * Fill a template's prompt with variable values. Returns the task, or an error message
+ * for unknown, missing or invalid values.
+ */
+export function renderPrompt(
+  template: TaskTemplate,
+  values: Record<string, unknown> = {}
+): { task: string } | { error: string } {
+  if (typeof values !== 'object' || values === null || Array.isArray(values)) {
+    return { error: 'variables must be an object' }
+  }
+  const declared = new Map(template.variables.map((v) => [v.name, v]))
+  const unknown = Object.keys(values).find((name) => !declared.has(name))
+  if (unknown) return { error: `unknown variable: ${unknown}` }
+
+  const resolved = new Map<string, string>()
+  for (const variable of template.variables) {
+    const value = values[variable.name] ?? variable.default
+    if (value === undefined) return { error: `missing variable: ${variable.name}` }
+    if (typeof value !== 'string') return { error: `variable ${variable.name} must be a string` }
+    if (variable.pattern !== undefined && !matches(variable.pattern, value)) {
+      return { error: `variable ${variable.name} must match ${variable.pattern}` }
+    }
+    resolved.set(variable.name, value)
+  }
+  return {
+    task: template.prompt.replace(
+      PLACEHOLDER,
+      (match, name: string) => resolved.get(name) ?? match
+    ),
+  }
+}
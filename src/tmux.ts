@@ -8,6 +8,10 @@ import path from 'path'
 import os from 'os'
 
 const CLAUDE_BIN = process.env.REEF_CLAUDE_BIN || 'claude'
+const DATA_DIR = process.env.REEF_DATA_DIR || path.join(process.cwd(), 'data')
+const LOG_DIR = path.join(DATA_DIR, 'tmux')
+
+const ANSI_PATTERN = /\x1b\[[0-9;?]*[ -/]*[@-~]|\x1b\][^\x07]*(\x07|\x1b\\)|\x1b[()][0-9A-Za-z]|\r/g
 
 export interface SpawnResult {
   sessionId: string
@@ -19,7 +23,8 @@ function uid(): string {
 }
 
 /** Spawn a new Claude Code instance in a tmux session with a task */
-export function spawnAgent(task: string, workdir?: string): SpawnResult {
+/** `maxTurns` caps claude's agentic turns; print mode stops once it is reached */
+export function spawnAgent(task: string, workdir?: string, maxTurns?: number): SpawnResult {
   const id = uid()
   const tmuxSession = `reef-${id}`
   const wd = workdir || process.cwd()
@@ -30,26 +35,32 @@ export function spawnAgent(task: string, workdir?: string): SpawnResult {
 
   // Create tmux session and run claude --print with task from file
   execSync(`tmux new-session -d -s ${tmuxSession} -c ${JSON.stringify(wd)}`)
-  execSync(`tmux send-keys -t ${tmuxSession} "${CLAUDE_BIN} --print < ${tmpFile}" Enter`)
+  pipeToLog(tmuxSession)
+  const limit = maxTurns ? ` --max-turns ${Math.floor(maxTurns)}` : ''
+  execSync(`tmux send-keys -t ${tmuxSession} "${CLAUDE_BIN} --print${limit} < ${tmpFile}" Enter`)
 
   return { sessionId: id, tmuxSession }
 }
 
-/** Spawn claude in interactive mode */
-export function spawnInteractiveAgent(workdir?: string): SpawnResult {
+/** Spawn claude in interactive mode, with the task as its first prompt */
+export function spawnInteractiveAgent(task: string, workdir?: string): SpawnResult {
   const id = uid()
   const tmuxSession = `reef-${id}`
   const wd = workdir || process.cwd()
 
+  const tmpFile = path.join(os.tmpdir(), `reef-task-${id}.txt`)
+  fs.writeFileSync(tmpFile, task)
+
   execSync(`tmux new-session -d -s ${tmuxSession} -c ${JSON.stringify(wd)}`)
-  execSync(`tmux send-keys -t ${tmuxSession} "${CLAUDE_BIN}" Enter`)
+  pipeToLog(tmuxSession)
+  execSync(`tmux send-keys -t ${tmuxSession} '${CLAUDE_BIN} "$(cat ${tmpFile})"' Enter`)
 
   return { sessionId: id, tmuxSession }
 }
 
 /** Send a message to a running tmux/claude session */
 export function sendToSession(tmuxSession: string, message: string): void {
-  const tmpFile = path.join(os.tmpdir(), `reef-msg-${Date.now()}.txt`)
+  const tmpFile = path.join(os.tmpdir(), `reef-msg-${uid()}.txt`)
   fs.writeFileSync(tmpFile, message)
   // Use buffer-based send to avoid escaping issues
   execSync(
@@ -58,6 +69,52 @@ export function sendToSession(tmuxSession: string, message: string): void {
   fs.unlinkSync(tmpFile)
 }
 
+/** Path of the pane log a tmux session's output is piped into */
+export function logPath(tmuxSession: string): string {
+  return path.join(LOG_DIR, `${tmuxSession}.log`)
+}
+
+/** Mirror everything the pane prints into its log file */
+function pipeToLog(tmuxSession: string): void {
+  fs.mkdirSync(LOG_DIR, { recursive: true })
+  execSync(
+    `tmux pipe-pane -t ${tmuxSession} -o ${JSON.stringify(`cat >> ${logPath(tmuxSession)}`)}`
+  )
+}
+
+/**
+ * Read complete lines appended to a session's pane log since `offset` (bytes).
+ * A trailing partial line is left for the next read. Terminal escapes are stripped.
+ * Returns null if the session has no log (spawned before pane logging existed).
+ */
+export function readLogFrom(
+  tmuxSession: string,
+  offset: number
+): { lines: string[]; offset: number } | null {
+  let fd: number
+  try {
+    fd = fs.openSync(logPath(tmuxSession), 'r')
+  } catch {
+    return null
+  }
+  try {
+    const size = fs.fstatSync(fd).size
+    if (size <= offset) return { lines: [], offset }
+    const buf = Buffer.alloc(size - offset)
+    fs.readSync(fd, buf, 0, buf.length, offset)
+    const end = buf.lastIndexOf(0x0a)
+    if (end === -1) return { lines: [], offset }
+    const lines = buf
+      .subarray(0, end)
+      .toString('utf-8')
+      .split('\n')
+      .map((line) => line.replace(ANSI_PATTERN, ''))
+    return { lines, offset: offset + end + 1 }
+  } finally {
+    fs.closeSync(fd)
+  }
+}
+
 /** Capture output from a tmux session */
 export function captureOutput(tmuxSession: string, lines = 500): string {
   try {
@@ -0,0 +1,130 @@
+/**
+ * reef-core/usage.ts — Token usage and cost accounting
+ *
+ * Providers report the usage of each model response through ProviderContext.onUsage.
+ * Every report is stored as a usage record (kept when its session is deleted, so spend
+ * stays accountable), added to the session's totals and broadcast as a `usage` event.
+ *
+ * Cost comes from a per-model price table in USD per million tokens. Built-in prices can
+ * be overridden or extended with REEF_PRICES_FILE (default $REEF_DATA_DIR/prices.json):
+ * `{ "gpt-4o": { "input": 2.5, "output": 10, "cached": 1.25 } }`. A model matches its own
+ * key, or the key without a dated snapshot suffix (`gpt-4o-2024-08-06`,
+ * `claude-sonnet-4-20250514`, `gemini-2.0-flash-001`). Other variants such as `o3-pro` don't
+ * inherit their base model's price; without a key of their own they go unpriced.
+ */
+import fs from 'fs'
+import path from 'path'
+import type { Provider, TokenUsage } from './shared-types.js'
+import { recordUsage as storeUsage, type SessionTotals } from './db.js'
+import { emitReefEvent } from './events.js'
+
+const DATA_DIR = process.env.REEF_DATA_DIR || path.join(process.cwd(), 'data')
+const PRICES_FILE = process.env.REEF_PRICES_FILE || path.join(DATA_DIR, 'prices.json')
+
+export interface ModelPrice {
+  /** USD per million uncached input tokens */
+  input: number
+  /** USD per million output tokens */
+  output: number
+  /** USD per million cached input tokens (default: the input price) */
+  cached?: number
+  /** USD per million input tokens written to the cache (default: 1.25 × the input price) */
+  cacheWrite?: number
+}
+
+/** Anthropic bills prompt cache writes at 1.25 × the input price */
+const CACHE_WRITE_MULTIPLIER = 1.25
+
+/** Snapshot suffixes: OpenAI's -2024-08-06, Anthropic's -20250514 and Gemini's -001 */
+const SNAPSHOT_SUFFIX = /-(\d{4}-\d{2}-\d{2}|\d{8}|\d{3})$/
+
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'claude-opus-4-5': { input: 5, output: 25, cached: 0.5 },
+  'claude-opus-4-1': { input: 15, output: 75, cached: 1.5 },
+  'claude-opus-4': { input: 15, output: 75, cached: 1.5 },
+  'claude-sonnet-4-5': { input: 3, output: 15, cached: 0.3 },
+  'claude-sonnet-4': { input: 3, output: 15, cached: 0.3 },
+  'claude-haiku-4-5': { input: 1, output: 5, cached: 0.1 },
+  'claude-3-7-sonnet': { input: 3, output: 15, cached: 0.3 },
+  'claude-3-5-haiku': { input: 0.8, output: 4, cached: 0.08 },
+  'gpt-4o': { input: 2.5, output: 10, cached: 1.25 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6, cached: 0.075 },
+  'gpt-4.1': { input: 2, output: 8, cached: 0.5 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6, cached: 0.1 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4, cached: 0.025 },
+  o3: { input: 2, output: 8, cached: 0.5 },
+  'o3-mini': { input: 1.1, output: 4.4, cached: 0.55 },
+  'o3-pro': { input: 20, output: 80 },
+  'o4-mini': { input: 1.1, output: 4.4, cached: 0.275 },
+  'gemini-2.5-pro': { input: 1.25, output: 10, cached: 0.31 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5, cached: 0.075 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4, cached: 0.025 },
+  mock: { input: 0, output: 0 },
+}
+
+let prices: Record<string, ModelPrice> = DEFAULT_PRICES
+
+function isPrice(value: unknown): value is ModelPrice {
+  const price = value as ModelPrice
+  return (
+    !!price &&
+    typeof price.input === 'number' &&
+    typeof price.output === 'number' &&
+    (price.cached === undefined || typeof price.cached === 'number') &&
+    (price.cacheWrite === undefined || typeof price.cacheWrite === 'number')
+  )
+}
+
+/**
+ * Load price overrides. Call once at startup; returns the number of models priced by the
+ * file. An invalid file is logged and ignored, leaving the built-in prices.
+ */
+export function loadPrices(): number {
+  if (!fs.existsSync(PRICES_FILE)) return 0
+  try {
+    const overrides = JSON.parse(fs.readFileSync(PRICES_FILE, 'utf8')) as Record<string, unknown>
+    for (const [model, price] of Object.entries(overrides)) {
+      if (!isPrice(price)) throw new Error(`invalid price for ${model}`)
+    }
+    prices = { ...DEFAULT_PRICES, ...(overrides as Record<string, ModelPrice>) }
+    return Object.keys(overrides).length
+  } catch (err) {
+    console.warn(`⚠️  Ignoring ${PRICES_FILE}:`, (err as Error).message)
+    return 0
+  }
+}
+
+export function priceOf(model: string): ModelPrice | undefined {
+  if (Object.hasOwn(prices, model)) return prices[model]
+  const base = model.replace(SNAPSHOT_SUFFIX, '')
+  return base !== model && Object.hasOwn(prices, base) ? prices[base] : undefined
+}
+
+/** Cost in USD, or undefined if the model has no price */
+export function costOf(model: string, usage: TokenUsage): number | undefined {
+  const price = priceOf(model)
+  if (!price) return undefined
+  const cacheWrite = usage.cacheWriteTokens ?? 0
+  const cost =
+    (usage.inputTokens - cacheWrite) * price.input +
+    cacheWrite * (price.cacheWrite ?? price.input * CACHE_WRITE_MULTIPLIER) +
+    usage.cachedTokens * (price.cached ?? price.input) +
+    usage.outputTokens * price.output
+  return cost / 1_000_000
+}
+
+/**
+ * Store one model response's usage against a session and broadcast it. Returns the
+ * session's new totals, or undefined if the session no longer exists.
+ */
+export function recordUsage(
+  sessionId: string,
+  provider: Provider,
+  model: string,
+  usage: TokenUsage
+): SessionTotals | undefined {
+  const costUsd = costOf(model, usage)
+  const totals = storeUsage({ sessionId, provider, model, ...usage, costUsd })
+  emitReefEvent('usage', sessionId, { ...usage, model, costUsd })
+  return totals
+}
@@ -0,0 +1,114 @@
+/**
+ * reef-core/worktree.ts — Git worktree isolation for sessions
+ *
+ * A session spawned with `isolation: "worktree"` runs in its own worktree of the workdir's
+ * repository, on a new branch `reef/<sessionId>` started from the current HEAD. Once it
+ * ends, the branch is merged back into whatever the main checkout has checked out, or the
+ * worktree and branch are discarded.
+ *
+ *   REEF_WORKTREE_DIR  where worktrees are created (default $REEF_DATA_DIR/worktrees)
+ */
+import fs from 'fs'
+import path from 'path'
+import type { SessionWorktree } from './shared-types.js'
+import { git, repoRoot, tryGit } from './git.js'
+
+const DATA_DIR = process.env.REEF_DATA_DIR || path.join(process.cwd(), 'data')
+const WORKTREE_DIR = process.env.REEF_WORKTREE_DIR || path.join(DATA_DIR, 'worktrees')
+
+/** Committer used when the repository has no identity configured */
+const FALLBACK_IDENTITY = ['-c', 'user.name=reef', '-c', 'user.email=reef@localhost']
+
+function identity(dir: string): string[] {
+  return tryGit(dir, 'config', 'user.email') ? [] : FALLBACK_IDENTITY
+}
+
+/**
+ * Create a worktree and branch for a session from the HEAD of `workdir`'s repository.
+ * Returns the worktree and the directory inside it that corresponds to `workdir`.
+ */
+export function createWorktree(
+  sessionId: string,
+  workdir: string
+): { worktree: SessionWorktree; workdir: string } {
+  const repo = repoRoot(workdir)
+  if (!repo) throw new Error(`workdir is not inside a git repository: ${workdir}`)
+  const base = tryGit(repo, 'rev-parse', '--verify', 'HEAD')
+  if (!base) throw new Error(`repository has no commits yet: ${repo}`)
+
+  const branch = `reef/${sessionId}`
+  const dir = path.join(path.resolve(WORKTREE_DIR), sessionId)
+  fs.mkdirSync(path.dirname(dir), { recursive: true })
+  git(repo, 'worktree', 'add', '-b', branch, dir, base)
+
+  // Run in the same subdirectory the session asked for; untracked ones don't exist yet
+  const subdir = path.relative(fs.realpathSync(repo), fs.realpathSync(workdir))
+  const sessionWorkdir = path.join(dir, subdir)
+  fs.mkdirSync(sessionWorkdir, { recursive: true })
+
+  return {
+    worktree: { branch, path: dir, repo, base, state: 'active' },
+    workdir: sessionWorkdir,
+  }
+}
+
+/** Commits on the session's branch and its uncommitted files */
+export function worktreeStatus(worktree: SessionWorktree): {
+  commits: number
+  uncommitted: string[]
+} {
+  const commits = parseInt(git(worktree.path, 'rev-list', '--count', `${worktree.base}..HEAD`), 10)
+  const status = git(worktree.path, 'status', '--porcelain')
+  return { commits, uncommitted: status ? status.split('\n') : [] }
+}
+
+/**
+ * Merge the session's branch into the main checkout's current branch, committing any
+ * changes the agent left uncommitted first, then remove the worktree and branch. Returns
+ * the merge commit, or undefined if the session changed nothing. A conflicting merge is
+ * aborted and throws, leaving the worktree in place.
+ */
+export function mergeWorktree(worktree: SessionWorktree, sessionId: string): string | undefined {
+  const { branch, repo } = worktree
+  if (worktreeStatus(worktree).uncommitted.length > 0) {
+    git(worktree.path, 'add', '-A')
+    git(
+      worktree.path,
+      ...identity(worktree.path),
+      'commit',
+      '-m',
+      `Uncommitted changes from reef session ${sessionId}`
+    )
+  }
+
+  let mergeCommit: string | undefined
+  if (worktreeStatus(worktree).commits > 0) {
+    try {
+      // The full ref name, so a tag or other ref named like the branch can't be merged instead
+      git(
+        repo,
+        ...identity(repo),
+        'merge',
+        '--no-ff',
+        '-m',
+        `Merge reef session ${sessionId} (${branch})`,
+        `refs/heads/${branch}`
+      )
+    } catch (err) {
+      tryGit(repo, 'merge', '--abort')
+      throw err
+    }
+    mergeCommit = git(repo, 'rev-parse', 'HEAD')
+  }
+
+  discardWorktree(worktree)
+  return mergeCommit
+}
+
+/** Remove the session's worktree and delete its branch; missing pieces are skipped */
+export function discardWorktree(worktree: SessionWorktree): void {
+  tryGit(worktree.repo, 'worktree', 'remove', '--force', worktree.path)
+  fs.rmSync(worktree.path, { recursive: true, force: true })
+  tryGit(worktree.repo, 'worktree', 'prune')
+  tryGit(worktree.repo, 'branch', '-D', worktree.branch)
+}
@@ -3,14 +3,14 @@
  */
 import { WebSocketServer, WebSocket } from 'ws'
 import type { Server } from 'http'
-import { eventBus, type ReefEvent } from './events.js'
-import { getSession } from './db.js'
-import { sendMessage } from './agent.js'
+import { eventBus, type SequencedReefEvent } from './events.js'
+import { getSession, getSessionOwner } from './db.js'
+import { decideApproval, sendMessage } from './agent.js'
+import { authenticate, canAccessSession } from './auth.js'
+import { shouldDeliver, type Subscriber } from './subscriptions.js'
 import type { WsClientMessage, WsServerMessage } from './shared-types.js'
 
-interface ClientState {
-  subscriptions: Set<string> // sessionIds, empty = all
-}
+type ClientState = Subscriber
 
 const clients = new Map<WebSocket, ClientState>()
 
@@ -21,8 +21,15 @@ function sendWs(ws: WebSocket, msg: WsServerMessage): void {
 export function attachWebSocket(server: Server): WebSocketServer {
   const wss = new WebSocketServer({ server, path: '/ws' })
 
-  wss.on('connection', (ws) => {
-    const state: ClientState = { subscriptions: new Set() }
+  wss.on('connection', (ws, req) => {
+    const auth = authenticate(req)
+    if (!auth) {
+      sendWs(ws, { type: 'error', data: 'Authentication required' })
+      ws.close(1008, 'Authentication required')
+      return
+    }
+
+    const state: ClientState = { auth, subscriptions: new Set() }
     clients.set(ws, state)
     console.log(`🔌 WebSocket client connected (${clients.size} total)`)
 
@@ -49,13 +56,12 @@ export function attachWebSocket(server: Server): WebSocketServer {
   })
 
   // Broadcast reef events to subscribed clients
-  eventBus.onReef((event: ReefEvent) => {
+  eventBus.onReef((event: SequencedReefEvent) => {
     const payload = JSON.stringify(event)
+    const owner = getSessionOwner(event.sessionId)
     for (const [ws, state] of clients) {
       if (ws.readyState !== WebSocket.OPEN) continue
-      if (state.subscriptions.size === 0 || state.subscriptions.has(event.sessionId)) {
-        ws.send(payload)
-      }
+      if (shouldDeliver(state, event, owner)) ws.send(payload)
     }
   })
 
@@ -63,22 +69,49 @@ export function attachWebSocket(server: Server): WebSocketServer {
   return wss
 }
 
+/**
+ * Send persisted events after `sinceSeq` before live delivery resumes. Runs synchronously,
+ * so no live event can interleave with the backlog. Returns the number of events sent.
+ */
+function replay(
+  ws: WebSocket,
+  state: ClientState,
+  sinceSeq: number,
+  sessionIds?: string[]
+): number {
+  const owners = new Map<string, string | undefined>()
+  let sent = 0
+  const ownerId = state.auth.role === 'admin' ? undefined : state.auth.userId
+  for (const event of eventBus.since(sinceSeq, { sessionIds, ownerId })) {
+    if (!owners.has(event.sessionId)) owners.set(event.sessionId, getSessionOwner(event.sessionId))
+    if (!shouldDeliver(state, event, owners.get(event.sessionId))) continue
+    sendWs(ws, event)
+    sent++
+  }
+  return sent
+}
+
 function handleClientMessage(ws: WebSocket, state: ClientState, msg: WsClientMessage): void {
   switch (msg.type) {
-    case 'subscribe':
+    case 'subscribe': {
       state.subscriptions.add(msg.sessionId)
-      sendWs(ws, { type: 'subscribed', sessionId: msg.sessionId })
+      const replayed =
+        msg.sinceSeq !== undefined ? replay(ws, state, msg.sinceSeq, [msg.sessionId]) : 0
+      sendWs(ws, { type: 'subscribed', sessionId: msg.sessionId, replayed })
       break
+    }
 
     case 'unsubscribe':
       state.subscriptions.delete(msg.sessionId)
       sendWs(ws, { type: 'unsubscribed', sessionId: msg.sessionId })
       break
 
-    case 'subscribe_all':
+    case 'subscribe_all': {
       state.subscriptions.clear()
-      sendWs(ws, { type: 'subscribed', sessionId: '*' })
+      const replayed = msg.sinceSeq !== undefined ? replay(ws, state, msg.sinceSeq) : 0
+      sendWs(ws, { type: 'subscribed', sessionId: '*', replayed })
       break
+    }
 
     case 'send':
       if (msg.sessionId && msg.message) {
@@ -87,15 +120,51 @@ function handleClientMessage(ws: WebSocket, state: ClientState, msg: WsClientMes
           sendWs(ws, { type: 'error', data: 'session not found' })
           return
         }
-        sendMessage(msg.sessionId, msg.message).then((ok) => {
-          sendWs(ws, {
-            type: ok ? 'sent' : 'error',
-            sessionId: msg.sessionId,
-            data: ok ? 'sent' : 'send failed',
-          } as WsServerMessage)
-        })
+        if (!canAccessSession(state.auth, session.user_id)) {
+          sendWs(ws, { type: 'error', data: 'Forbidden' })
+          return
+        }
+        sendMessage(msg.sessionId, msg.message)
+          .then((ok) => {
+            sendWs(ws, {
+              type: ok ? 'sent' : 'error',
+              sessionId: msg.sessionId,
+              data: ok ? 'sent' : 'send failed',
+            } as WsServerMessage)
+          })
+          .catch((err) => {
+            if (ws.readyState !== WebSocket.OPEN) return
+            sendWs(ws, {
+              type: 'error',
+              sessionId: msg.sessionId,
+              data: `send failed: ${(err as Error).message}`,
+            } as WsServerMessage)
+          })
+      }
+      break
+
+    case 'approve': {
+      const session = msg.sessionId ? getSession(msg.sessionId) : null
+      if (!session) {
+        sendWs(ws, { type: 'error', data: 'session not found' })
+        return
+      }
+      if (!canAccessSession(state.auth, session.user_id)) {
+        sendWs(ws, { type: 'error', data: 'Forbidden' })
+        return
+      }
+      if (typeof msg.approved !== 'boolean') {
+        sendWs(ws, { type: 'error', data: 'approved must be a boolean' })
+        return
       }
+      const decision = { approved: msg.approved, reason: msg.reason || undefined }
+      if (!decideApproval(session.id, msg.toolCallId, decision, state.auth.userId)) {
+        sendWs(ws, { type: 'error', data: 'tool call is not awaiting approval' })
+        return
+      }
+      sendWs(ws, { type: 'approval_recorded', sessionId: session.id, toolCallId: msg.toolCallId })
       break
+    }
 
     default:
       sendWs(ws, {
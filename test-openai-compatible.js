@@ -0,0 +1,216 @@
+#!/usr/bin/env node
+
+/**
+ * Test script for the OpenAI-compatible provider, against a local stub server
+ * Usage: node test-openai-compatible.js
+ *
+ * Starts a stub chat completions endpoint and a reef-core server that reaches it through
+ * an "openai-compatible" entry in providers.json, then checks a streamed text turn and a
+ * tool-call round trip. Exits non-zero if a check fails.
+ */
+import { spawn } from 'child_process'
+import fs from 'fs'
+import http from 'http'
+import os from 'os'
+import path from 'path'
+import { fileURLToPath } from 'url'
+
+const STUB_PORT = 7891
+const REEF_PORT = 7892
+const API_BASE = `http://localhost:${REEF_PORT}`
+const API_KEY = 'stub-key'
+const ROOT = path.dirname(fileURLToPath(import.meta.url))
+
+let failures = 0
+
+function check(ok, label) {
+  console.log(`${ok ? '✅' : '❌'} ${label}`)
+  if (!ok) failures++
+}
+
+// ━━━ Stub server ━━━
+
+/** Requests the stub received: headers and parsed body */
+const received = []
+
+function startStub() {
+  const server = http.createServer((req, res) => {
+    let raw = ''
+    req.on('data', (c) => (raw += c))
+    req.on('end', () => {
+      const body = JSON.parse(raw || '{}')
+      received.push({ headers: req.headers, body })
+
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' })
+      const send = (choices, extra = {}) => {
+        const chunk = { id: 'stub', object: 'chat.completion.chunk', created: 0, model: body.model }
+        res.write(`data: ${JSON.stringify({ ...chunk, choices, ...extra })}\n\n`)
+      }
+
+      const last = body.messages[body.messages.length - 1]
+      if (body.model === 'stub-tool' && last.role !== 'tool') {
+        // Ask for a write_file call, with the arguments split across chunks
+        const args = JSON.stringify({ path: 'hello.txt', content: 'hi from stub\n' })
+        const call = { index: 0, id: 'call_1', type: 'function' }
+        send([{ index: 0, delta: { tool_calls: [{ ...call, function: { name: 'write_file' } }] } }])
+        send([
+          {
+            index: 0,
+            delta: { tool_calls: [{ index: 0, function: { arguments: args.slice(0, 10) } }] },
+          },
+        ])
+        send([
+          {
+            index: 0,
+            delta: { tool_calls: [{ index: 0, function: { arguments: args.slice(10) } }] },
+          },
+        ])
+        send([{ index: 0, delta: {}, finish_reason: 'tool_calls' }])
+      } else {
+        const words = body.model === 'stub-tool' ? ['Wrote ', 'the file'] : ['Hello ', 'from stub']
+        for (const word of words) send([{ index: 0, delta: { content: word } }])
+        send([{ index: 0, delta: {}, finish_reason: 'stop' }])
+      }
+      send([], { usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 } })
+      res.end('data: [DONE]\n\n')
+    })
+  })
+  return new Promise((resolve) => server.listen(STUB_PORT, () => resolve(server)))
+}
+
+// ━━━ reef-core ━━━
+
+function startReef(dataDir) {
+  fs.writeFileSync(
+    path.join(dataDir, 'providers.json'),
+    JSON.stringify({
+      providers: [
+        {
+          type: 'openai-compatible',
+          name: 'stub',
+          baseURL: `http://localhost:${STUB_PORT}/v1`,
+          defaultModel: 'stub-text',
+          apiKey: API_KEY,
+          headers: { 'X-Team': 'reef' },
+        },
+      ],
+    })
+  )
+  const env = { ...process.env, REEF_DATA_DIR: dataDir, REEF_PORT: String(REEF_PORT) }
+  delete env.REEF_PROVIDERS_CONFIG
+  delete env.REEF_POLICY_FILE
+  const child = spawn(process.execPath, ['--import', 'tsx', path.join(ROOT, 'src/index.ts')], {
+    cwd: ROOT,
+    env,
+    stdio: ['ignore', 'ignore', 'inherit'],
+  })
+  return child
+}
+
+async function request(endpoint, options = {}) {
+  const response = await fetch(`${API_BASE}${endpoint}`, {
+    ...options,
+    headers: { 'Content-Type': 'application/json', ...options.headers },
+  })
+  return { response, data: await response.json() }
+}
+
+async function waitForServer() {
+  for (let i = 0; i < 60; i++) {
+    try {
+      await fetch(`${API_BASE}/status`)
+      return
+    } catch {
+      await new Promise((r) => setTimeout(r, 500))
+    }
+  }
+  throw new Error('reef-core did not start')
+}
+
+/** Spawn a session and wait until it goes idle or fails; returns the session row */
+async function runSession(headers, spawnRequest) {
+  const spawned = await request('/sessions', {
+    method: 'POST',
+    headers,
+    body: JSON.stringify(spawnRequest),
+  })
+  if (spawned.response.status !== 201) throw new Error(JSON.stringify(spawned.data))
+  const id = spawned.data.session.id
+  for (let i = 0; i < 40; i++) {
+    await new Promise((r) => setTimeout(r, 250))
+    const { data } = await request(`/sessions/${id}`, { headers })
+    if (['idle', 'completed', 'error'].includes(data.session.status)) return data.session
+  }
+  throw new Error(`session ${id} did not finish`)
+}
+
+async function testOpenAICompatible() {
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'reef-stub-'))
+  const workdir = path.join(dataDir, 'work')
+  fs.mkdirSync(workdir)
+  const stub = await startStub()
+  const reef = startReef(dataDir)
+
+  try {
+    console.log('🧪 Testing the OpenAI-compatible provider against a stub server\n')
+    await waitForServer()
+
+    const login = await request('/auth/login', {
+      method: 'POST',
+      body: JSON.stringify({ email: 'admin@reef.local', password: 'admin123' }),
+    })
+    const headers = { Authorization: `Bearer ${login.data.token}` }
+
+    const status = await request('/status', { headers })
+    check(status.data.providers?.stub === true, 'stub provider is registered and available')
+
+    // 1. Streamed text turn
+    console.log('\n1. Streamed text turn')
+    const text = await runSession(headers, { task: 'Say hello', provider: 'stub', workdir })
+    check(text.status === 'idle', `session went idle (status: ${text.status})`)
+    const first = received[0]
+    check(first?.body.model === 'stub-text', 'request used the default model')
+    check(first?.body.stream === true, 'request was streamed')
+    check(first?.headers.authorization === `Bearer ${API_KEY}`, 'API key was sent')
+    check(first?.headers['x-team'] === 'reef', 'custom header was sent')
+    const textOutput = await request(`/sessions/${text.id}/output`, { headers })
+    check(textOutput.data.output.includes('Hello from stub'), 'streamed text reached the output')
+
+    // 2. Tool-call round trip
+    console.log('\n2. Tool-call round trip')
+    const before = received.length
+    const tool = await runSession(headers, {
+      task: 'Write a file',
+      provider: 'stub',
+      model: 'stub-tool',
+      workdir,
+    })
+    check(tool.status === 'idle', `session went idle (status: ${tool.status})`)
+    const written = path.join(workdir, 'hello.txt')
+    check(
+      fs.existsSync(written) && fs.readFileSync(written, 'utf8') === 'hi from stub\n',
+      'write_file ran with the streamed arguments'
+    )
+    const followUp = received[before + 1]?.body.messages ?? []
+    const result = followUp.find((m) => m.role === 'tool')
+    check(result?.tool_call_id === 'call_1', 'tool result was sent back for call_1')
+    check(
+      followUp.some((m) => m.role === 'assistant' && m.tool_calls?.[0]?.id === 'call_1'),
+      'assistant tool call was sent back with it'
+    )
+    const toolOutput = await request(`/sessions/${tool.id}/output`, { headers })
+    check(toolOutput.data.output.includes('Wrote the file'), 'final reply reached the output')
+  } finally {
+    reef.kill()
+    stub.close()
+    fs.rmSync(dataDir, { recursive: true, force: true })
+  }
+
+  console.log(failures === 0 ? '\n✅ All checks passed!' : `\n❌ ${failures} check(s) failed`)
+  process.exitCode = failures === 0 ? 0 : 1
+}
+
+testOpenAICompatible().catch((error) => {
+  console.error('❌ Test failed:', error)
+  process.exitCode = 1
+})